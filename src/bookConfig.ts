@@ -1,34 +1,167 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { LineIndex } from './lineIndex';
+import { EpubPosition, isEpubFile } from './epub';
+import { isTextDocument } from './formatAdapter';
+import { isZipFile, listZipBooks, parseZipEntryPath } from './bookFile';
+import { GlobMatcher } from './globPattern';
+import { parseBookFileName } from './bookMetadata';
+import { LibraryStore } from './libraryStore';
+
+export interface Bookmark {
+    id: string;
+    line: number; // 书签所在行号
+    name: string; // 书签名称
+    anchor: string; // 该行开头的一小段文本，文档变化后用于重新定位
+    note?: string; // 备注
+    createdAt: string;
+}
+
+/**
+ * 对章节目录的手动修改，每次按规则扫描章节后重新应用
+ */
+export interface ChapterOverrides {
+    added: { name: string; line: number; level: number }[]; // 手动插入的章节
+    removed: number[]; // 删除的识别结果（行号）
+    renamed: { [line: number]: string }; // 重命名的识别结果（行号 -> 新标题）
+}
+
+/**
+ * 阅读状态：想读、在读、已读完、弃读（未设置表示未读）
+ */
+export type ReadingStatus = 'wantToRead' | 'reading' | 'finished' | 'dropped';
+
+export const readingStatusLabels: { [status in ReadingStatus]: string } = {
+    wantToRead: '想读',
+    reading: '在读',
+    finished: '已读完',
+    dropped: '弃读'
+};
+
+/**
+ * 手动编辑的书籍信息，未设置的书名、作者从文件名中解析
+ */
+export interface BookMetadata {
+    title?: string; // 显示的书名（未设置时显示文件名）
+    author?: string;
+    series?: string; // 所属系列
+    tags?: string[];
+    rating?: number; // 个人评分（1 ~ 5）
+    notes?: string; // 备注
+    coverPath?: string; // 封面图片路径（相对路径相对于文档所在的目录）
+}
 
 export interface BookConfig {
     filePath: string;
     fileName: string;
     progress: number; // 滚动位置（行号）
+    progressOffset?: number; // 分页模式下页首在该行中的字符偏移，调整窗口大小后据此找回所在页
+    epubPosition?: EpubPosition; // EPUB 的阅读位置（书脊条目 + 行偏移），优先于 progress 使用
     totalLines: number;
     lastReadTime: string;
     chapterPattern?: string; // 特定于该文档的章节分割规则
-    bookmarks?: number[]; // 书签（可选功能）
+    chapterPreset?: string; // 章节规则来自的预设 id（自定义规则时为空）
+    volumePattern?: string; // 特定于该文档的卷标题规则（用于生成分卷目录）
+    chapterOverrides?: ChapterOverrides; // 手动编辑章节目录的记录
+    encoding?: string; // 手动指定的文档编码（未指定时自动检测）
+    bookmarks?: Bookmark[]; // 书签
+    autoScrollSpeed?: number; // 自动滚动速度（行/分钟）
+    lineIndex?: LineIndex; // 行字节偏移索引（分块模式使用）
+    metadata?: BookMetadata; // 书籍信息
+    readingStatus?: ReadingStatus; // 阅读状态
+    startedTime?: string; // 开始阅读的时间
+    finishedTime?: string; // 读完的时间
+    finishLine?: number; // 读到该行即视为读完（阅读器扫描完章节后记录，未记录时为全书 99% 处）
+}
+
+/**
+ * 书架上的一本书：文档配置加上所在的分类和文件信息
+ */
+export interface BookshelfEntry extends BookConfig {
+    root: string; // 所在的书库目录
+    category: string; // 所在子文件夹相对书库目录的路径（以 / 分隔），位于书库目录本身时为空
+    size: number; // 文档大小（字节，压缩包内的文档为解压后的大小）
+    addedTime: string; // 加入书库的时间（文件的创建时间，压缩包内的文档为压缩包的创建时间）
+    metadata: BookMetadata; // 手动编辑的书籍信息，缺少的书名、作者由文件名解析补全
+    cover?: string; // 封面图片的 data URI（由书架载入）
+}
+
+/**
+ * 扫描书库目录时找到的文档文件
+ */
+interface FoundBookFile {
+    filePath: string;
+    category: string; // 所在子文件夹相对书库目录的路径
+    size: number;
+    stats: fs.Stats; // 文件（压缩包内的文档为压缩包）的状态
+}
+
+/**
+ * 导入旧版同目录配置文件的结果
+ */
+export interface LegacyImportResult {
+    imported: number; // 导入书库的文档配置数量
+    undeleted: string[]; // 要求删除但删除失败的配置文件路径（例如所在目录只读）
 }
 
 export class BookConfigManager {
+    /**
+     * 初始化集中式书库存储（在扩展激活时调用）
+     */
+    public static initialize(context: vscode.ExtensionContext) {
+        LibraryStore.initialize(context.globalStorageUri);
+    }
+
+    /**
+     * 是否使用旧版的同目录 JSON 配置文件
+     */
+    private static useSidecar(): boolean {
+        const config = vscode.workspace.getConfiguration('evaReader');
+        return config.get<string>('configStorage', 'library') === 'sidecar' || !LibraryStore.isReady();
+    }
+
     private static getConfigPath(txtFilePath: string): string {
+        // 压缩包内的文档无法写入包内，配置文件保存在压缩包旁边
+        const zipEntry = parseZipEntryPath(txtFilePath);
+        if (zipEntry) {
+            const archiveName = path.basename(zipEntry.archivePath, path.extname(zipEntry.archivePath));
+            const entryName = zipEntry.entryName.replace(/\//g, '_');
+            return path.join(path.dirname(zipEntry.archivePath), `${archiveName}_${path.basename(entryName, '.txt')}.json`);
+        }
+
         const dir = path.dirname(txtFilePath);
         const baseName = path.basename(txtFilePath, '.txt');
         return path.join(dir, `${baseName}.json`);
     }
 
     /**
-     * 加载文档配置
+     * 判断 JSON 内容是否为本插件的文档配置，避免误读或覆盖同名的其他 JSON 文件
      */
-    public static async loadConfig(txtFilePath: string): Promise<BookConfig | null> {
+    private static isBookConfig(value: unknown): value is BookConfig {
+        if (value === null || typeof value !== 'object') {
+            return false;
+        }
+        const config = value as { [key: string]: unknown };
+        return typeof config.filePath === 'string'
+            && typeof config.progress === 'number'
+            && typeof config.lastReadTime === 'string';
+    }
+
+    /**
+     * 读取同目录的 JSON 配置文件
+     */
+    private static async loadSidecar(txtFilePath: string): Promise<BookConfig | null> {
         const configPath = this.getConfigPath(txtFilePath);
         
         try {
             if (fs.existsSync(configPath)) {
                 const content = await fs.promises.readFile(configPath, 'utf-8');
-                return JSON.parse(content);
+                const config = JSON.parse(content);
+                if (this.isBookConfig(config)) {
+                    config.bookmarks = this.normalizeBookmarks(config.bookmarks);
+                    return config;
+                }
             }
         } catch (error) {
             console.error('读取配置文档失败:', error);
@@ -37,13 +170,73 @@ export class BookConfigManager {
         return null;
     }
 
+    /**
+     * 加载文档配置
+     */
+    public static async loadConfig(txtFilePath: string): Promise<BookConfig | null> {
+        if (this.useSidecar()) {
+            return this.loadSidecar(txtFilePath);
+        }
+
+        try {
+            const config = await LibraryStore.get(txtFilePath);
+            if (config) {
+                config.bookmarks = this.normalizeBookmarks(config.bookmarks);
+                return config;
+            }
+
+            // 书库中没有记录时，导入旧版同目录配置文件
+            const legacy = await this.loadSidecar(txtFilePath);
+            if (legacy) {
+                legacy.filePath = txtFilePath;
+                await LibraryStore.put(legacy);
+                return legacy;
+            }
+        } catch (error) {
+            console.error('读取书库配置失败:', error);
+        }
+
+        return null;
+    }
+
+    /**
+     * 兼容旧版本只保存行号的书签格式
+     */
+    private static normalizeBookmarks(bookmarks: Array<Bookmark | number> | undefined): Bookmark[] | undefined {
+        if (!bookmarks) {
+            return undefined;
+        }
+
+        return bookmarks.map((bookmark, index) => {
+            if (typeof bookmark === 'number') {
+                return {
+                    id: `legacy-${index}-${bookmark}`,
+                    line: bookmark,
+                    name: `第 ${bookmark} 行`,
+                    anchor: '',
+                    createdAt: new Date().toISOString()
+                };
+            }
+            return bookmark;
+        });
+    }
+
     /**
      * 保存文档配置
      */
     public static async saveConfig(config: BookConfig): Promise<boolean> {
-        const configPath = this.getConfigPath(config.filePath);
-        
         try {
+            if (!this.useSidecar()) {
+                await LibraryStore.put(config);
+                return true;
+            }
+
+            const configPath = this.getConfigPath(config.filePath);
+            if (fs.existsSync(configPath) && !(await this.loadSidecar(config.filePath))) {
+                vscode.window.showErrorMessage(`${path.basename(configPath)} 不是 EVA Reader 的配置文件，已跳过保存以免覆盖`);
+                return false;
+            }
+
             const content = JSON.stringify(config, null, 2);
             await fs.promises.writeFile(configPath, content, 'utf-8');
             return true;
@@ -55,13 +248,62 @@ export class BookConfigManager {
     }
 
     /**
-     * 更新阅读进度
+     * 将目录下旧版同目录配置文件导入书库；删除失败的配置文件跳过并记录，不影响其余文件的导入
+     */
+    public static async importLegacyConfigs(rootPaths: string[], deleteSidecars: boolean): Promise<LegacyImportResult> {
+        const result: LegacyImportResult = { imported: 0, undeleted: [] };
+        
+        if (!LibraryStore.isReady()) {
+            return result;
+        }
+
+        for (const rootPath of rootPaths) {
+            for (const { filePath } of await this.findBookFiles(rootPath)) {
+                const legacy = await this.loadSidecar(filePath);
+                if (!legacy) {
+                    continue;
+                }
+
+                if (!(await LibraryStore.has(filePath))) {
+                    legacy.filePath = filePath;
+                    await LibraryStore.put(legacy);
+                    result.imported++;
+                }
+
+                if (deleteSidecars) {
+                    const configPath = this.getConfigPath(filePath);
+                    try {
+                        await fs.promises.unlink(configPath);
+                    } catch (error) {
+                        console.error('删除旧版配置文件失败:', error);
+                        result.undeleted.push(configPath);
+                    }
+                }
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * 读完的判定位置：有两个以上章节时为最后一章的标题行，否则为全书 99% 处
+     */
+    public static getFinishLine(totalLines: number, lastChapterLine?: number): number {
+        return lastChapterLine ?? Math.ceil(totalLines * 0.99);
+    }
+
+    /**
+     * 更新阅读进度：离开开头时由未读或想读转为在读，向后读到最后一章时标记为已读完（阅读器面板与状态栏共用此规则）。
+     * finishLine 为阅读器扫描完章节后得到的读完位置，省略时沿用已记录的位置。返回本次是否标记为已读完
      */
     public static async updateProgress(
         txtFilePath: string,
         progress: number,
-        totalLines: number
-    ): Promise<void> {
+        totalLines: number,
+        progressOffset?: number,
+        epubPosition?: EpubPosition,
+        finishLine?: number
+    ): Promise<boolean> {
         let config = await this.loadConfig(txtFilePath);
         
         if (!config) {
@@ -74,11 +316,81 @@ export class BookConfigManager {
             };
         }
         
+        const previousProgress = config.progress;
         config.progress = progress;
+        config.progressOffset = progressOffset || undefined;
+        config.epubPosition = epubPosition;
         config.totalLines = totalLines;
         config.lastReadTime = new Date().toISOString();
+        if (finishLine !== undefined) {
+            config.finishLine = finishLine;
+        }
+
+        // 想读、在读（及未设置）的书才自动标记为已读完，手动设为弃读的不变
+        const autoStatus = !config.readingStatus || config.readingStatus === 'wantToRead' || config.readingStatus === 'reading';
+        let finished = false;
+        if (autoStatus && this.hasReadToEnd(config, previousProgress, progress)) {
+            this.applyReadingStatus(config, 'finished');
+            finished = true;
+        } else if (progress > 0 && (!config.readingStatus || config.readingStatus === 'wantToRead')) {
+            this.applyReadingStatus(config, 'reading');
+        }
         
         await this.saveConfig(config);
+        return finished;
+    }
+
+    /**
+     * 是否从 previous 向后读到了最后一章：位置未变（例如刚手动改过状态）不算；
+     * 从前面直接跳到最后一章的开头也不算，需在最后一章内继续往后读或读到全书末尾
+     */
+    private static hasReadToEnd(config: BookConfig, previous: number, progress: number): boolean {
+        const finishLine = config.finishLine ?? this.getFinishLine(config.totalLines);
+        if (progress <= previous || progress < finishLine) {
+            return false;
+        }
+        return previous >= finishLine || progress >= this.getFinishLine(config.totalLines);
+    }
+
+    /**
+     * 设置阅读状态并记录开始、读完的时间；status 为 undefined 时恢复为未读并清除时间
+     */
+    private static applyReadingStatus(config: BookConfig, status: ReadingStatus | undefined) {
+        const now = new Date().toISOString();
+        config.readingStatus = status;
+        if (!status) {
+            config.startedTime = undefined;
+            config.finishedTime = undefined;
+            return;
+        }
+        if (status !== 'wantToRead') {
+            config.startedTime = config.startedTime || now;
+        }
+        // 读完的时间只对已读完的文档有意义，改为其他状态（例如重读）时清除
+        config.finishedTime = status === 'finished' ? now : undefined;
+    }
+
+    /**
+     * 手动设置阅读状态
+     */
+    public static async updateReadingStatus(
+        txtFilePath: string,
+        status: ReadingStatus | undefined
+    ): Promise<void> {
+        let config = await this.loadConfig(txtFilePath);
+        
+        if (!config) {
+            config = {
+                filePath: txtFilePath,
+                fileName: path.basename(txtFilePath),
+                progress: 0,
+                totalLines: 0,
+                lastReadTime: new Date().toISOString()
+            };
+        }
+        
+        this.applyReadingStatus(config, status);
+        await this.saveConfig(config);
     }
 
     /**
@@ -86,13 +398,14 @@ export class BookConfigManager {
      */
     public static async updateChapterPattern(
         txtFilePath: string,
-        pattern: string
+        pattern: string,
+        presetId?: string,
+        volumePattern?: string
     ): Promise<void> {
         let config = await this.loadConfig(txtFilePath);
         
         if (!config) {
             // 创建新配置
-            const stats = await fs.promises.stat(txtFilePath);
             config = {
                 filePath: txtFilePath,
                 fileName: path.basename(txtFilePath),
@@ -103,47 +416,239 @@ export class BookConfigManager {
         }
         
         config.chapterPattern = pattern;
+        config.chapterPreset = presetId;
+        config.volumePattern = volumePattern;
         await this.saveConfig(config);
     }
 
     /**
-     * 获取目录下所有文档的配置
+     * 更新书签列表
      */
-    public static async getAllBooksInDirectory(dirPath: string): Promise<BookConfig[]> {
-        const books: BookConfig[] = [];
+    public static async updateBookmarks(
+        txtFilePath: string,
+        bookmarks: Bookmark[]
+    ): Promise<void> {
+        let config = await this.loadConfig(txtFilePath);
         
-        try {
-            if (!fs.existsSync(dirPath)) {
-                return books;
+        if (!config) {
+            config = {
+                filePath: txtFilePath,
+                fileName: path.basename(txtFilePath),
+                progress: 0,
+                totalLines: 0,
+                lastReadTime: new Date().toISOString()
+            };
+        }
+        
+        config.bookmarks = bookmarks;
+        await this.saveConfig(config);
+    }
+
+    /**
+     * 更新章节目录的手动修改（传入 undefined 表示恢复为自动识别结果）
+     */
+    public static async updateChapterOverrides(
+        txtFilePath: string,
+        overrides: ChapterOverrides | undefined
+    ): Promise<void> {
+        let config = await this.loadConfig(txtFilePath);
+        
+        if (!config) {
+            config = {
+                filePath: txtFilePath,
+                fileName: path.basename(txtFilePath),
+                progress: 0,
+                totalLines: 0,
+                lastReadTime: new Date().toISOString()
+            };
+        }
+        
+        config.chapterOverrides = overrides;
+        await this.saveConfig(config);
+    }
+
+    /**
+     * 更新自动滚动速度
+     */
+    public static async updateAutoScrollSpeed(
+        txtFilePath: string,
+        speed: number
+    ): Promise<void> {
+        let config = await this.loadConfig(txtFilePath);
+        
+        if (!config) {
+            config = {
+                filePath: txtFilePath,
+                fileName: path.basename(txtFilePath),
+                progress: 0,
+                totalLines: 0,
+                lastReadTime: new Date().toISOString()
+            };
+        }
+        
+        config.autoScrollSpeed = speed;
+        await this.saveConfig(config);
+    }
+
+    /**
+     * 更新文档编码
+     */
+    public static async updateEncoding(
+        txtFilePath: string,
+        encoding: string
+    ): Promise<void> {
+        let config = await this.loadConfig(txtFilePath);
+        
+        if (!config) {
+            config = {
+                filePath: txtFilePath,
+                fileName: path.basename(txtFilePath),
+                progress: 0,
+                totalLines: 0,
+                lastReadTime: new Date().toISOString()
+            };
+        }
+        
+        config.encoding = encoding;
+        await this.saveConfig(config);
+    }
+
+    /**
+     * 更新书籍信息
+     */
+    public static async updateMetadata(
+        txtFilePath: string,
+        metadata: BookMetadata
+    ): Promise<void> {
+        let config = await this.loadConfig(txtFilePath);
+        
+        if (!config) {
+            config = {
+                filePath: txtFilePath,
+                fileName: path.basename(txtFilePath),
+                progress: 0,
+                totalLines: 0,
+                lastReadTime: new Date().toISOString()
+            };
+        }
+        
+        config.metadata = metadata;
+        await this.saveConfig(config);
+    }
+
+    /**
+     * 更新行索引
+     */
+    public static async updateLineIndex(
+        txtFilePath: string,
+        lineIndex: LineIndex
+    ): Promise<void> {
+        let config = await this.loadConfig(txtFilePath);
+        
+        if (!config) {
+            config = {
+                filePath: txtFilePath,
+                fileName: path.basename(txtFilePath),
+                progress: 0,
+                totalLines: lineIndex.totalLines,
+                lastReadTime: new Date().toISOString()
+            };
+        }
+        
+        config.lineIndex = lineIndex;
+        await this.saveConfig(config);
+    }
+
+    /**
+     * 列出目录下所有文档：按 scanDepth 递归扫描子文件夹，跳过匹配 scanIgnore 的文件和文件夹，压缩包中的每个文档单独列出
+     */
+    private static async findBookFiles(dirPath: string): Promise<FoundBookFile[]> {
+        const found: FoundBookFile[] = [];
+        const settings = vscode.workspace.getConfiguration('evaReader');
+        const maxDepth = Math.max(0, settings.get<number>('scanDepth', 5));
+        const ignore = new GlobMatcher(settings.get<string[]>('scanIgnore', ['.*', 'node_modules']));
+
+        // category 为当前文件夹相对文档目录的路径（以 / 分隔，根目录为空）
+        const scan = async (currentDir: string, category: string, depth: number) => {
+            let files: string[];
+            try {
+                files = await fs.promises.readdir(currentDir);
+            } catch (error) {
+                console.error('读取目录失败:', error);
+                return;
             }
 
-            const files = await fs.promises.readdir(dirPath);
-            
             for (const file of files) {
-                if (file.endsWith('.txt')) {
-                    const txtPath = path.join(dirPath, file);
-                    const stats = await fs.promises.stat(txtPath);
-                    
-                    if (stats.isFile()) {
-                        let config = await this.loadConfig(txtPath);
-                        
-                        if (!config) {
-                            // 如果没有配置文档，创建默认配置
-                            config = {
-                                filePath: txtPath,
-                                fileName: file,
-                                progress: 0,
-                                totalLines: 0,
-                                lastReadTime: stats.mtime.toISOString()
-                            };
+                const relativePath = category ? `${category}/${file}` : file;
+                if (ignore.matches(relativePath)) {
+                    continue;
+                }
+
+                const txtPath = path.join(currentDir, file);
+                let stats: fs.Stats;
+                try {
+                    stats = await fs.promises.stat(txtPath);
+                } catch {
+                    continue; // 失效的符号链接等
+                }
+
+                if (stats.isDirectory()) {
+                    if (depth < maxDepth) {
+                        await scan(txtPath, relativePath, depth + 1);
+                    }
+                } else if (!stats.isFile()) {
+                    continue;
+                } else if (isZipFile(file)) {
+                    // 压缩包中的每个文档作为单独的书
+                    try {
+                        for (const entry of await listZipBooks(txtPath)) {
+                            found.push({ filePath: entry.filePath, category, size: entry.size, stats });
                         }
-                        
-                        books.push(config);
+                    } catch (error) {
+                        console.error(`读取压缩包失败: ${relativePath}`, error);
                     }
+                } else if (isTextDocument(file) || isEpubFile(file)) {
+                    found.push({ filePath: txtPath, category, size: stats.size, stats });
                 }
             }
-        } catch (error) {
-            console.error('读取目录失败:', error);
+        };
+
+        if (fs.existsSync(dirPath)) {
+            await scan(dirPath, '', 0);
+        }
+        return found;
+    }
+
+    /**
+     * 获取目录下所有文档的配置
+     */
+    public static async getAllBooksInDirectory(dirPath: string): Promise<BookshelfEntry[]> {
+        const books: BookshelfEntry[] = [];
+
+        for (const { filePath, category, size, stats } of await this.findBookFiles(dirPath)) {
+            let config = await this.loadConfig(filePath);
+
+            if (!config) {
+                // 如果没有配置文档，创建默认配置
+                config = {
+                    filePath: filePath,
+                    fileName: path.basename(filePath),
+                    progress: 0,
+                    totalLines: 0,
+                    lastReadTime: stats.mtime.toISOString()
+                };
+            }
+
+            // 部分文件系统不记录创建时间，此时使用修改时间
+            const addedTime = stats.birthtimeMs > 0 ? stats.birthtime : stats.mtime;
+            books.push({
+                ...config,
+                root: dirPath,
+                category,
+                size,
+                addedTime: addedTime.toISOString(),
+                metadata: { ...parseBookFileName(config.fileName), ...config.metadata }
+            });
         }
         
         // 按最后阅读时间排序
@@ -155,9 +660,47 @@ export class BookConfigManager {
     }
 
     /**
-     * 计算阅读进度百分比
+     * 合并多个书库目录中的文档（同一文档只保留一次）；不存在或无法读取的目录记入 missingRoots，不影响其他目录
+     */
+    public static async getAllBooksInRoots(rootPaths: string[]): Promise<{ books: BookshelfEntry[]; missingRoots: string[] }> {
+        const books: BookshelfEntry[] = [];
+        const missingRoots: string[] = [];
+        const seen = new Set<string>();
+
+        for (const rootPath of rootPaths) {
+            try {
+                if (!(await fs.promises.stat(rootPath)).isDirectory()) {
+                    missingRoots.push(rootPath);
+                    continue;
+                }
+            } catch {
+                missingRoots.push(rootPath);
+                continue;
+            }
+
+            for (const book of await this.getAllBooksInDirectory(rootPath)) {
+                if (!seen.has(book.filePath)) {
+                    seen.add(book.filePath);
+                    books.push(book);
+                }
+            }
+        }
+
+        // 按最后阅读时间排序
+        books.sort((a, b) => {
+            return new Date(b.lastReadTime).getTime() - new Date(a.lastReadTime).getTime();
+        });
+
+        return { books, missingRoots };
+    }
+
+    /**
+     * 计算阅读进度百分比（已读完的文档为 100%）
      */
     public static getProgressPercentage(config: BookConfig): number {
+        if (config.readingStatus === 'finished') {
+            return 100;
+        }
         if (config.totalLines === 0) {
             return 0;
         }
@@ -0,0 +1,251 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { pipeline, Readable, Transform } from 'stream';
+import { isTextDocument } from './formatAdapter';
+import { ZipArchive, ZipEntry } from './zipArchive';
+
+const gunzip = promisify(zlib.gunzip);
+const pipelineAsync = promisify(pipeline);
+
+// 压缩文档中起点在此之后的读取改为读取解压到临时目录的副本，避免每次都从头解压
+const extractThreshold = 1024 * 1024;
+
+// 已解压的副本：文档路径 → 副本路径（按压缩文件的修改时间和大小判断是否失效）
+const extractedBooks = new Map<string, { signature: string; copyPath: Promise<string> }>();
+
+/**
+ * 文档的大小（解压后）和修改时间，用于判断行索引是否失效
+ */
+export interface BookFileStats {
+    size: number;
+    mtimeMs: number;
+}
+
+// 压缩包内的文档以“压缩包路径/包内路径”表示，例如 D:\books\合集.zip\第一部.txt
+const zipEntryPattern = /^(.*?\.zip)[\\/](.+)$/i;
+
+export function isGzipFile(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.gz';
+}
+
+export function isZipFile(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.zip';
+}
+
+/**
+ * 拆分压缩包内文档的路径，普通文件返回 undefined
+ */
+export function parseZipEntryPath(filePath: string): { archivePath: string; entryName: string } | undefined {
+    const match = filePath.match(zipEntryPattern);
+    return match ? { archivePath: match[1], entryName: match[2].replace(/\\/g, '/') } : undefined;
+}
+
+/**
+ * 是否需要解压后才能读取（.gz 文件或 ZIP 压缩包内的文档）
+ */
+export function isCompressedBook(filePath: string): boolean {
+    return isGzipFile(filePath) || parseZipEntryPath(filePath) !== undefined;
+}
+
+/**
+ * 压缩包中的一个文档：路径和解压后的大小
+ */
+export interface ZipBook {
+    filePath: string;
+    size: number;
+}
+
+/**
+ * 列出 ZIP 压缩包中可阅读的文档
+ */
+export async function listZipBooks(archivePath: string): Promise<ZipBook[]> {
+    const archive = await ZipArchive.open(archivePath);
+    return archive.entries
+        .filter(entry => !entry.name.endsWith('/') && isTextDocument(entry.name) && !isGzipFile(entry.name))
+        .map(entry => ({ filePath: path.join(archivePath, ...entry.name.split('/')), size: entry.size }));
+}
+
+async function openZipEntry(filePath: string): Promise<{ archive: ZipArchive; entry: ZipEntry } | undefined> {
+    const location = parseZipEntryPath(filePath);
+    if (!location) {
+        return undefined;
+    }
+    const archive = await ZipArchive.open(location.archivePath);
+    const entry = archive.getEntry(location.entryName);
+    if (!entry) {
+        throw new Error(`压缩包中找不到文件：${location.entryName}`);
+    }
+    return { archive, entry };
+}
+
+/**
+ * 获取文档解压后的大小和修改时间（压缩包内的文档使用压缩包的修改时间）
+ */
+export async function statBook(filePath: string): Promise<BookFileStats> {
+    const zipEntry = await openZipEntry(filePath);
+    if (zipEntry) {
+        const stats = await fs.promises.stat(parseZipEntryPath(filePath)!.archivePath);
+        return { size: zipEntry.entry.size, mtimeMs: stats.mtimeMs };
+    }
+
+    const stats = await fs.promises.stat(filePath);
+    if (isGzipFile(filePath) && stats.size >= 4) {
+        // gzip 文件末尾 4 字节记录解压后的大小（对 4GB 取模）
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const trailer = Buffer.alloc(4);
+            await handle.read(trailer, 0, 4, stats.size - 4);
+            return { size: trailer.readUInt32LE(0), mtimeMs: stats.mtimeMs };
+        } finally {
+            await handle.close();
+        }
+    }
+    return { size: stats.size, mtimeMs: stats.mtimeMs };
+}
+
+/**
+ * 跳过流开头的 count 个字节
+ */
+function skipBytes(stream: Readable, count: number): Readable {
+    let remaining = count;
+    const skipper = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            if (remaining >= chunk.length) {
+                remaining -= chunk.length;
+                callback();
+                return;
+            }
+            const rest = chunk.subarray(remaining);
+            remaining = 0;
+            callback(null, rest);
+        }
+    });
+    stream.on('error', error => skipper.destroy(error));
+    skipper.on('close', () => stream.destroy());
+    return stream.pipe(skipper);
+}
+
+/**
+ * 从头解压压缩文档的流
+ */
+async function createDecompressStream(filePath: string): Promise<Readable> {
+    const zipEntry = await openZipEntry(filePath);
+    if (zipEntry) {
+        return zipEntry.archive.createReadStream(zipEntry.entry);
+    }
+    const source = fs.createReadStream(filePath);
+    const decompress = zlib.createGunzip();
+    source.on('error', error => decompress.destroy(error));
+    decompress.on('close', () => source.destroy());
+    return source.pipe(decompress);
+}
+
+/**
+ * 获取压缩文档解压到临时目录的副本路径，压缩文件未修改时复用已解压的副本
+ */
+async function getExtractedCopy(filePath: string): Promise<string> {
+    const sourcePath = parseZipEntryPath(filePath)?.archivePath ?? filePath;
+    const stats = await fs.promises.stat(sourcePath);
+    const signature = `${stats.mtimeMs}:${stats.size}`;
+    const cached = extractedBooks.get(filePath);
+    if (cached?.signature === signature) {
+        return cached.copyPath;
+    }
+
+    const copyPath = extractBook(filePath);
+    extractedBooks.set(filePath, { signature, copyPath });
+    // 解压失败时不缓存，下次读取重试
+    copyPath.catch(() => {
+        if (extractedBooks.get(filePath)?.copyPath === copyPath) {
+            extractedBooks.delete(filePath);
+        }
+    });
+    return copyPath;
+}
+
+/**
+ * 把压缩文档解压到临时目录（先写临时文件再替换，避免读到写了一半的副本）
+ */
+async function extractBook(filePath: string): Promise<string> {
+    const dir = path.join(os.tmpdir(), 'eva-reader');
+    await fs.promises.mkdir(dir, { recursive: true });
+    const copyPath = path.join(dir, crypto.createHash('sha1').update(filePath).digest('hex'));
+    const tmpPath = `${copyPath}.${process.pid}.tmp`;
+    await pipelineAsync(await createDecompressStream(filePath), fs.createWriteStream(tmpPath));
+    await fs.promises.rename(tmpPath, copyPath);
+    return copyPath;
+}
+
+/**
+ * 从解压后内容的 start 字节处开始流式读取文档；压缩文档在开头附近时直接解压并丢弃 start 之前的数据，
+ * 更靠后时读取解压后的副本
+ */
+export async function createBookReadStream(filePath: string, start: number = 0): Promise<Readable> {
+    if (!isCompressedBook(filePath)) {
+        return fs.createReadStream(filePath, { start });
+    }
+    if (start >= extractThreshold) {
+        return fs.createReadStream(await getExtractedCopy(filePath), { start });
+    }
+    const stream = await createDecompressStream(filePath);
+    return start > 0 ? skipBytes(stream, start) : stream;
+}
+
+/**
+ * 读取解压后内容中 [start, start + length) 范围的字节（到达末尾时返回的数据会更短）
+ */
+export async function readBookRange(filePath: string, start: number, length: number): Promise<Buffer> {
+    const compressed = isCompressedBook(filePath);
+    if (!compressed || start >= extractThreshold) {
+        const readPath = compressed ? await getExtractedCopy(filePath) : filePath;
+        const buffer = Buffer.alloc(length);
+        const handle = await fs.promises.open(readPath, 'r');
+        try {
+            let bytesRead = 0;
+            while (bytesRead < length) {
+                const result = await handle.read(buffer, bytesRead, length - bytesRead, start + bytesRead);
+                if (result.bytesRead === 0) {
+                    break;
+                }
+                bytesRead += result.bytesRead;
+            }
+            return buffer.subarray(0, bytesRead);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    const stream = await createBookReadStream(filePath, start);
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let received = 0;
+
+        stream.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+            received += chunk.length;
+            if (received >= length) {
+                // 已读到所需范围，停止解压
+                stream.destroy();
+                resolve(Buffer.concat(chunks).subarray(0, length));
+            }
+        });
+        stream.on('end', () => resolve(Buffer.concat(chunks).subarray(0, length)));
+        stream.on('error', reject);
+    });
+}
+
+/**
+ * 读取并解压整个文档
+ */
+export async function readBookFile(filePath: string): Promise<Buffer> {
+    const zipEntry = await openZipEntry(filePath);
+    if (zipEntry) {
+        return zipEntry.archive.read(zipEntry.entry);
+    }
+    const data = await fs.promises.readFile(filePath);
+    return isGzipFile(filePath) ? gunzip(data) : data;
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BookMetadata } from './bookConfig';
+import { parseZipEntryPath } from './bookFile';
+import { imageTypes, maxImageSize } from './epub';
+
+// 书名与作者之间常见的分隔符，解析时从两端去掉
+const separators = /^[\s_\-—–·,，、]+|[\s_\-—–·,，、]+$/g;
+
+/**
+ * 从常见的文件名格式中解析书名和作者，例如：
+ * 《书名》作者：某某.txt、《书名》（精校版）作者：某某.txt、书名 作者：某某.txt
+ * 无法识别的部分不返回
+ */
+export function parseBookFileName(fileName: string): BookMetadata {
+    let name = fileName.replace(/\.gz$/i, '');
+    name = name.substring(0, name.length - path.extname(name).length);
+    const metadata: BookMetadata = {};
+
+    // 作者名到括号、书名号或下一个分隔符为止
+    const author = name.match(/作者\s*[：:]\s*([^（(【[《》）)\]】]+)/);
+    if (author) {
+        metadata.author = author[1].replace(separators, '') || undefined;
+    }
+
+    const title = name.match(/《([^》]+)》/);
+    if (title) {
+        metadata.title = title[1].trim() || undefined;
+    } else if (author) {
+        // 没有书名号时，“作者：”前面的部分即为书名（去掉末尾“（精校版）”之类的说明）
+        metadata.title = name.substring(0, author.index).replace(separators, '')
+            .replace(/(.)[（(【[][^）)\]】]*[）)\]】]$/, '$1').replace(separators, '') || undefined;
+    }
+
+    return metadata;
+}
+
+/**
+ * 读取封面图片并转换为 data URI（不存在、格式不支持或过大时返回 undefined）
+ * 相对路径相对于文档所在的目录（压缩包内的文档为压缩包所在的目录）
+ */
+export async function loadCoverImage(filePath: string, coverPath: string): Promise<string | undefined> {
+    const type = imageTypes[path.extname(coverPath).substring(1).toLowerCase()];
+    if (!type) {
+        return undefined;
+    }
+    const bookDir = path.dirname(parseZipEntryPath(filePath)?.archivePath ?? filePath);
+    const imagePath = path.resolve(bookDir, coverPath);
+    try {
+        const stats = await fs.promises.stat(imagePath);
+        if (!stats.isFile() || stats.size > maxImageSize) {
+            return undefined;
+        }
+        const data = await fs.promises.readFile(imagePath);
+        return `data:${type};base64,${data.toString('base64')}`;
+    } catch {
+        return undefined;
+    }
+}
@@ -1,12 +1,37 @@
 import * as vscode from 'vscode';
-import { BookConfig, BookConfigManager } from './bookConfig';
+import * as path from 'path';
+import { BookConfig, BookConfigManager, BookMetadata, ReadingStatus, readingStatusLabels } from './bookConfig';
+import { loadCoverImage, parseBookFileName } from './bookMetadata';
+import { imageTypes, isEpubFile } from './epub';
+import { getDocumentFormat } from './formatAdapter';
+import { parseZipEntryPath } from './bookFile';
+import { ChapterPatternCandidate, ChapterPatternPreset, chapterPatternPresets, detectChapterPattern, findPresetByPattern } from './chapterPatterns';
+import { getLibraryRoots } from './libraryRoots';
+import { ReaderRegistry } from './readerRegistry';
+
+/**
+ * 书架的筛选和排序方式，保存在扩展的全局状态中
+ */
+interface BookshelfView {
+    sortBy: 'title' | 'progress' | 'size' | 'lastRead' | 'added';
+    descending: boolean;
+    filter: 'all' | 'unread' | ReadingStatus;
+    groupBy: 'folder' | 'status';
+}
+
+const defaultView: BookshelfView = { sortBy: 'lastRead', descending: true, filter: 'all', groupBy: 'folder' };
 
 export class BookshelfProvider {
+    private static readonly viewStateKey = 'evaReader.bookshelfView';
+
     private panel: vscode.WebviewPanel | undefined;
     private extensionUri: vscode.Uri;
+    private readerRegistry: ReaderRegistry;
+    private globalState: vscode.Memento | undefined;
 
-    constructor(extensionUri: vscode.Uri) {
+    constructor(extensionUri: vscode.Uri, readerRegistry: ReaderRegistry) {
         this.extensionUri = extensionUri;
+        this.readerRegistry = readerRegistry;
     }
 
     public async show(context: vscode.ExtensionContext) {
@@ -15,6 +40,7 @@ export class BookshelfProvider {
             return;
         }
 
+        this.globalState = context.globalState;
         this.panel = vscode.window.createWebviewPanel(
             'evaReaderBookshelf',
             'EVA Reader',
@@ -34,7 +60,7 @@ export class BookshelfProvider {
                         await vscode.commands.executeCommand('evaReader.openBook', vscode.Uri.file(message.filePath));
                         break;
                     case 'configureBook':
-                        await this.configureBookPattern(message.filePath);
+                        await this.showBookMenu(message.filePath);
                         break;
                     case 'refresh':
                         await this.refresh();
@@ -45,6 +71,9 @@ export class BookshelfProvider {
                     case 'openSettings':
                         await vscode.commands.executeCommand('evaReader.openSettings');
                         break;
+                    case 'saveView':
+                        await this.globalState?.update(BookshelfProvider.viewStateKey, message.view);
+                        break;
                 }
             },
             undefined,
@@ -58,11 +87,16 @@ export class BookshelfProvider {
         await this.refresh();
     }
 
-    private async refresh() {
-        const config = vscode.workspace.getConfiguration('evaReader');
-        const booksDir = config.get<string>('booksDirectory', '');
+    /**
+     * 重新扫描所有书库目录并刷新书架（书架未打开时不做任何事）
+     */
+    public async refresh() {
+        if (!this.panel) {
+            return;
+        }
 
-        if (!booksDir) {
+        const roots = getLibraryRoots();
+        if (roots.length === 0) {
             this.sendMessage({
                 command: 'updateBooks',
                 books: [],
@@ -71,13 +105,22 @@ export class BookshelfProvider {
             return;
         }
 
-        const books = await BookConfigManager.getAllBooksInDirectory(booksDir);
+        const { books, missingRoots } = await BookConfigManager.getAllBooksInRoots(roots.map(root => root.path));
+        await Promise.all(books.map(async book => {
+            if (book.metadata.coverPath) {
+                book.cover = await loadCoverImage(book.filePath, book.metadata.coverPath);
+            }
+        }));
         
         this.sendMessage({
             command: 'updateBooks',
             books: books,
             hasDirectory: true,
-            directory: booksDir
+            roots: roots.map(root => ({
+                path: root.path,
+                label: root.label,
+                missing: missingRoots.includes(root.path)
+            }))
         });
     }
 
@@ -91,31 +134,266 @@ export class BookshelfProvider {
 
         if (result && result.length > 0) {
             const config = vscode.workspace.getConfiguration('evaReader');
+            // 书架在配置变化时自动刷新
             await config.update('booksDirectory', result[0].fsPath, vscode.ConfigurationTarget.Global);
-            await this.refresh();
         }
     }
 
+    /**
+     * 文档卡片的 ⚙️ 菜单：编辑书籍信息，纯文本文档还可以设置章节分割规则
+     */
+    private async showBookMenu(filePath: string) {
+        type MenuItem = vscode.QuickPickItem & { action: 'status' | 'metadata' | 'pattern' };
+        const items: MenuItem[] = [
+            { label: '$(bookmark) 阅读状态', description: '想读、在读、已读完、弃读', action: 'status' },
+            { label: '$(edit) 编辑书籍信息', description: '书名、作者、系列、标签、评分、备注和封面', action: 'metadata' }
+        ];
+        if (!isEpubFile(filePath) && getDocumentFormat(filePath) === 'text') {
+            items.push({ label: '$(list-ordered) 章节分割规则', action: 'pattern' });
+        }
+
+        const selected = await vscode.window.showQuickPick(items, { title: path.basename(filePath) });
+        if (selected?.action === 'status') {
+            await this.changeReadingStatus(filePath);
+        } else if (selected?.action === 'metadata') {
+            await this.editMetadata(filePath);
+        } else if (selected?.action === 'pattern') {
+            await this.configureBookPattern(filePath);
+        }
+    }
+
+    /**
+     * 手动设置阅读状态
+     */
+    private async changeReadingStatus(filePath: string) {
+        const config = await BookConfigManager.loadConfig(filePath);
+        const current = config?.readingStatus;
+        const statuses: (ReadingStatus | undefined)[] = ['wantToRead', 'reading', 'finished', 'dropped', undefined];
+        const items = statuses.map(status => ({
+            label: `${status === current ? '$(check) ' : ''}${status ? readingStatusLabels[status] : '未读'}`,
+            description: status === undefined ? '清除阅读状态和开始、读完的时间' : undefined,
+            status
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, { title: `阅读状态 - ${path.basename(filePath)}` });
+        if (!selected || selected.status === current) {
+            return;
+        }
+        await BookConfigManager.updateReadingStatus(filePath, selected.status);
+        await this.refresh();
+    }
+
+    /**
+     * 编辑书籍信息：选择一项修改后保存并回到列表，按 Esc 结束
+     */
+    private async editMetadata(filePath: string) {
+        const config = await BookConfigManager.loadConfig(filePath);
+        const metadata: BookMetadata = { ...parseBookFileName(path.basename(filePath)), ...config?.metadata };
+
+        type FieldItem = vscode.QuickPickItem & { field: keyof BookMetadata };
+        let picked: FieldItem | undefined;
+        do {
+            const items: FieldItem[] = [
+                { label: '书名', description: metadata.title || '（未设置，显示文件名）', field: 'title' },
+                { label: '作者', description: metadata.author || '（未设置）', field: 'author' },
+                { label: '系列', description: metadata.series || '（未设置）', field: 'series' },
+                { label: '标签', description: metadata.tags?.join('、') || '（未设置）', field: 'tags' },
+                { label: '评分', description: metadata.rating ? '★'.repeat(metadata.rating) : '（未评分）', field: 'rating' },
+                { label: '备注', description: metadata.notes || '（未设置）', field: 'notes' },
+                { label: '封面图片', description: metadata.coverPath || '（未设置）', field: 'coverPath' }
+            ];
+            picked = await vscode.window.showQuickPick(items, {
+                title: `书籍信息 - ${path.basename(filePath)}`,
+                placeHolder: '选择要修改的项目，按 Esc 完成'
+            });
+            if (picked && await this.editMetadataField(filePath, metadata, picked)) {
+                await BookConfigManager.updateMetadata(filePath, metadata);
+                await this.refresh();
+            }
+        } while (picked);
+    }
+
+    /**
+     * 修改书籍信息中的一项，返回是否有修改
+     */
+    private async editMetadataField(filePath: string, metadata: BookMetadata, item: vscode.QuickPickItem & { field: keyof BookMetadata }): Promise<boolean> {
+        const field = item.field;
+
+        if (field === 'rating') {
+            const ratings = [5, 4, 3, 2, 1, 0].map(rating => ({
+                label: rating > 0 ? '★'.repeat(rating) + '☆'.repeat(5 - rating) : '不评分',
+                rating
+            }));
+            const selected = await vscode.window.showQuickPick(ratings, { title: '评分' });
+            if (!selected) {
+                return false;
+            }
+            metadata.rating = selected.rating || undefined;
+            return true;
+        }
+
+        if (field === 'coverPath') {
+            const bookDir = path.dirname(parseZipEntryPath(filePath)?.archivePath ?? filePath);
+            const actions = [{ label: '$(file-media) 选择图片…', clear: false }];
+            if (metadata.coverPath) {
+                actions.push({ label: '$(close) 移除封面', clear: true });
+            }
+            const action = await vscode.window.showQuickPick(actions, { title: '封面图片' });
+            if (!action) {
+                return false;
+            }
+            if (action.clear) {
+                metadata.coverPath = undefined;
+                return true;
+            }
+            const files = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: vscode.Uri.file(bookDir),
+                filters: {
+                    // eslint-disable-next-line @typescript-eslint/naming-convention
+                    'Images': Object.keys(imageTypes)
+                }
+            });
+            if (!files || files.length === 0) {
+                return false;
+            }
+            // 文档目录内的图片保存为相对路径，整个书库移动后仍然有效
+            const relative = path.relative(bookDir, files[0].fsPath);
+            metadata.coverPath = relative.startsWith('..') || path.isAbsolute(relative) ? files[0].fsPath : relative;
+            return true;
+        }
+
+        const current = field === 'tags' ? (metadata.tags || []).join('，') : metadata[field] || '';
+        const value = await vscode.window.showInputBox({
+            title: item.label,
+            value: current,
+            prompt: field === 'tags' ? '多个标签用逗号分隔' : field === 'title' ? '留空时显示文件名' : undefined
+        });
+        if (value === undefined) {
+            return false;
+        }
+        if (field === 'tags') {
+            const tags = value.split(/[,，、;；]/).map(tag => tag.trim()).filter(tag => tag);
+            metadata.tags = tags.length > 0 ? Array.from(new Set(tags)) : undefined;
+        } else {
+            // 书名、作者清空时保存为空字符串，不再使用从文件名中解析的结果
+            metadata[field] = value.trim();
+        }
+        return true;
+    }
+
     private async configureBookPattern(filePath: string) {
+        if (isEpubFile(filePath)) {
+            vscode.window.showInformationMessage('EPUB 文档使用书中的目录，不需要设置章节分割规则');
+            return;
+        }
+        const format = getDocumentFormat(filePath);
+        if (format === 'markdown' || format === 'html') {
+            vscode.window.showInformationMessage('Markdown / HTML 文档按标题生成章节，没有标题时可在阅读器中配置章节分割规则');
+            return;
+        }
+
         const config = await BookConfigManager.loadConfig(filePath);
         const globalConfig = vscode.workspace.getConfiguration('evaReader');
         const defaultPattern = globalConfig.get<string>('defaultChapterPattern', '');
-        
         const currentPattern = config?.chapterPattern || defaultPattern;
 
-        const newPattern = await vscode.window.showInputBox({
-            prompt: '请输入该文档的章节分割规则（正则表达式）',
-            value: currentPattern,
-            placeHolder: '^第[0-9一二三四五六七八九十百千]+[章节]\\s+.+$'
+        type PatternItem = vscode.QuickPickItem & { action: 'detect' | 'preset' | 'custom'; preset?: ChapterPatternPreset };
+        const items: PatternItem[] = [
+            { label: '$(search) 自动检测', description: '抽样分析文档，推荐合适的章节规则', action: 'detect' },
+            { label: '预设', kind: vscode.QuickPickItemKind.Separator, action: 'preset' },
+            ...chapterPatternPresets.map(preset => ({
+                label: `${preset.id === config?.chapterPreset ? '$(check) ' : ''}${preset.label}`,
+                description: preset.example,
+                detail: preset.volumePattern ? `卷：${preset.volumePattern}　章：${preset.pattern}` : preset.pattern,
+                action: 'preset' as const,
+                preset
+            })),
+            { label: '', kind: vscode.QuickPickItemKind.Separator, action: 'custom' },
+            { label: '$(edit) 自定义正则表达式…', detail: currentPattern, action: 'custom' }
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: `章节分割规则 - ${path.basename(filePath)}`,
+            placeHolder: '选择预设、自动检测或自定义规则'
         });
+        if (!selected) {
+            return;
+        }
+
+        let preset: ChapterPatternPreset | undefined;
+        let newPattern: string | undefined;
+        let volumePattern: string | undefined;
+        if (selected.action === 'detect') {
+            preset = await this.detectBookPattern(filePath, config?.encoding);
+            newPattern = preset?.pattern;
+            volumePattern = preset?.volumePattern;
+        } else if (selected.action === 'preset') {
+            preset = selected.preset;
+            newPattern = preset?.pattern;
+            volumePattern = preset?.volumePattern;
+        } else {
+            newPattern = await vscode.window.showInputBox({
+                prompt: '请输入该文档的章节分割规则（正则表达式）',
+                value: currentPattern,
+                placeHolder: '^第[0-9一二三四五六七八九十百千]+[章节]\\s+.+$'
+            });
+            if (newPattern === undefined) {
+                return;
+            }
+            volumePattern = await vscode.window.showInputBox({
+                prompt: '请输入卷标题规则（正则表达式），留空表示不分卷',
+                value: config?.volumePattern || '',
+                placeHolder: '^第[0-9一二三四五六七八九十百千]+卷.*$'
+            });
+            if (volumePattern === undefined) {
+                return;
+            }
+            preset = findPresetByPattern(newPattern, volumePattern);
+        }
 
         if (newPattern !== undefined) {
-            await BookConfigManager.updateChapterPattern(filePath, newPattern);
+            await BookConfigManager.updateChapterPattern(filePath, newPattern, preset?.id, volumePattern);
             vscode.window.showInformationMessage('章节分割规则已更新');
+            await this.readerRegistry.get(vscode.Uri.file(filePath))?.reloadChapters();
             await this.refresh();
         }
     }
 
+    /**
+     * 自动检测章节格式，并让用户从候选规则中确认
+     */
+    private async detectBookPattern(filePath: string, encoding?: string): Promise<ChapterPatternPreset | undefined> {
+        let candidates: ChapterPatternCandidate[];
+        try {
+            candidates = await vscode.window.withProgress(
+                { location: vscode.ProgressLocation.Notification, title: '正在检测章节格式…' },
+                () => detectChapterPattern(filePath, encoding)
+            );
+        } catch (error) {
+            vscode.window.showErrorMessage(`检测章节格式失败: ${error}`);
+            return undefined;
+        }
+
+        if (candidates.length === 0) {
+            vscode.window.showWarningMessage('未能识别章节格式，请选择预设或自定义规则');
+            return undefined;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            candidates.map((candidate, index) => ({
+                label: `${index === 0 ? '$(star-full) ' : ''}${candidate.preset.label}`,
+                description: `约 ${candidate.estimatedChapters} 章 · 平均每章 ${candidate.averageGap} 行`,
+                detail: candidate.preset.volumePattern
+                    ? `卷：${candidate.preset.volumePattern}　章：${candidate.preset.pattern}`
+                    : candidate.preset.pattern,
+                candidate
+            })),
+            { title: '检测结果（按匹配程度排序）', placeHolder: '选择要使用的章节规则' }
+        );
+        return selected?.candidate.preset;
+    }
+
     private sendMessage(message: any) {
         if (this.panel) {
             this.panel.webview.postMessage(message);
@@ -125,6 +403,7 @@ export class BookshelfProvider {
     private async getWebviewContent(): Promise<string> {
         const config = vscode.workspace.getConfiguration('evaReader');
         const fontSize = config.get<number>('fontSize', 16);
+        const view = { ...defaultView, ...this.globalState?.get<Partial<BookshelfView>>(BookshelfProvider.viewStateKey) };
 
         return `<!DOCTYPE html>
 <html lang="zh-CN">
@@ -224,6 +503,21 @@ export class BookshelfProvider {
             padding: 16px;
             transition: all 0.2s;
             cursor: pointer;
+            display: flex;
+            gap: 12px;
+        }
+        
+        .book-cover {
+            width: 72px;
+            height: 100px;
+            object-fit: cover;
+            border-radius: 3px;
+            flex-shrink: 0;
+        }
+        
+        .book-main {
+            flex: 1;
+            min-width: 0;
         }
         
         .book-card:hover {
@@ -306,6 +600,168 @@ export class BookshelfProvider {
         .directory-info strong {
             color: var(--vscode-editor-foreground);
         }
+        
+        .category {
+            margin-bottom: 20px;
+        }
+        
+        .category-header {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 6px 0;
+            margin-bottom: 10px;
+            font-size: 15px;
+            font-weight: 600;
+            cursor: pointer;
+            user-select: none;
+        }
+        
+        .category-header:hover {
+            color: var(--vscode-textLink-foreground);
+        }
+        
+        .category-toggle {
+            display: inline-block;
+            width: 12px;
+            transition: transform 0.2s;
+        }
+        
+        .category.collapsed .category-toggle {
+            transform: rotate(-90deg);
+        }
+        
+        .category.collapsed .books-grid {
+            display: none;
+        }
+        
+        .category-count {
+            font-size: 12px;
+            font-weight: normal;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .root-item {
+            display: inline-block;
+            margin-right: 16px;
+        }
+        
+        .root-item.missing {
+            color: var(--vscode-errorForeground);
+        }
+        
+        .toolbar {
+            display: flex;
+            flex-wrap: wrap;
+            align-items: center;
+            gap: 10px;
+            margin-bottom: 20px;
+        }
+        
+        .search-input {
+            flex: 1;
+            min-width: 200px;
+            padding: 6px 10px;
+            background-color: var(--vscode-input-background);
+            color: var(--vscode-input-foreground);
+            border: 1px solid var(--vscode-input-border, transparent);
+            border-radius: 3px;
+            font-size: 13px;
+            font-family: inherit;
+        }
+        
+        .search-input:focus,
+        .toolbar select:focus {
+            outline: none;
+            border-color: var(--vscode-focusBorder);
+        }
+        
+        .toolbar select {
+            padding: 5px 8px;
+            background-color: var(--vscode-dropdown-background);
+            color: var(--vscode-dropdown-foreground);
+            border: 1px solid var(--vscode-dropdown-border);
+            border-radius: 3px;
+            font-size: 13px;
+            font-family: inherit;
+        }
+        
+        .toolbar .btn {
+            padding: 5px 10px;
+        }
+        
+        .result-count {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .no-results {
+            text-align: center;
+            padding: 40px 20px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .book-meta {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin: -6px 0 8px;
+            word-break: break-word;
+        }
+        
+        .book-rating {
+            color: var(--vscode-charts-yellow, #e2b93d);
+        }
+        
+        .book-tags {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px;
+            margin-bottom: 8px;
+        }
+        
+        .book-tag {
+            padding: 1px 6px;
+            border-radius: 8px;
+            font-size: 11px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        
+        .book-tag:hover {
+            opacity: 0.8;
+        }
+        
+        .book-notes {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 8px;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        
+        .book-status {
+            font-weight: 600;
+        }
+        
+        .book-status-reading {
+            color: var(--vscode-charts-blue, #3794ff);
+        }
+        
+        .book-status-finished {
+            color: var(--vscode-charts-green, #89d185);
+        }
+        
+        .book-status-dropped {
+            opacity: 0.7;
+        }
+        
+        .book-category {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            margin: -6px 0 10px;
+            word-break: break-word;
+        }
     </style>
 </head>
 <body>
@@ -319,6 +775,31 @@ export class BookshelfProvider {
     
     <div id="directory-info" style="display: none;" class="directory-info"></div>
     
+    <div id="toolbar" class="toolbar" style="display: none;">
+        <input type="search" id="search-input" class="search-input" placeholder="搜索书名、作者、标签、备注（可用 作者: 系列: 标签: 限定）" oninput="renderCurrentBooks()">
+        <select id="filter-select" title="筛选" onchange="changeView()">
+            <option value="all">全部</option>
+            <option value="unread">未读</option>
+            <option value="wantToRead">想读</option>
+            <option value="reading">在读</option>
+            <option value="finished">已读完</option>
+            <option value="dropped">弃读</option>
+        </select>
+        <select id="group-select" title="分组" onchange="changeGroup()">
+            <option value="folder">按文件夹分组</option>
+            <option value="status">按阅读状态分组</option>
+        </select>
+        <select id="sort-select" title="排序" onchange="changeSort()">
+            <option value="lastRead">上次阅读</option>
+            <option value="title">书名</option>
+            <option value="progress">阅读进度</option>
+            <option value="size">文件大小</option>
+            <option value="added">添加时间</option>
+        </select>
+        <button id="sort-order" class="btn btn-secondary" onclick="toggleSortOrder()"></button>
+        <span id="result-count" class="result-count"></span>
+    </div>
+    
     <div id="empty-state" class="empty-state">
         <div class="empty-state-icon">📖</div>
         <h2>还没有设置文档目录</h2>
@@ -326,7 +807,7 @@ export class BookshelfProvider {
         <button class="btn" onclick="selectDirectory()">选择目录</button>
     </div>
     
-    <div id="books-grid" class="books-grid" style="display: none;"></div>
+    <div id="books-container" style="display: none;"></div>
 
     <script>
         const vscode = acquireVsCodeApi();
@@ -352,6 +833,317 @@ export class BookshelfProvider {
             vscode.postMessage({ command: 'openSettings' });
         }
         
+        // 折叠的分类在重新打开书架后保持折叠
+        const collapsedCategories = new Set((vscode.getState() || {}).collapsedCategories || []);
+        let renderedCategories = [];
+        let libraryRoots = []; // 书库目录：{ path, label, missing }
+        
+        function getRootLabel(rootPath) {
+            const root = libraryRoots.find(item => item.path === rootPath);
+            return root ? root.label : rootPath;
+        }
+        
+        // 有多个书库目录时分组名称带上书库目录
+        function getGroupName(book) {
+            if (libraryRoots.length <= 1) {
+                return book.category || '';
+            }
+            const rootLabel = getRootLabel(book.root);
+            return book.category ? rootLabel + ' / ' + book.category : rootLabel;
+        }
+        
+        function renderRootInfo(root) {
+            const count = root.missing ? 0 : currentBooks.filter(book => book.root === root.path).length;
+            return \`<span class="root-item\${root.missing ? ' missing' : ''}" title="\${escapeAttribute(root.path)}">\${root.missing
+                ? \`⚠️ \${escapeHtml(root.label)}：目录不存在或无法访问\`
+                : \`📚 \${escapeHtml(root.label)}（\${count} 本）\`}</span>\`;
+        }
+        
+        let currentBooks = [];
+        let view = ${JSON.stringify(view)};
+        
+        // 书名按拼音排序，书名中的数字按数值比较
+        const titleCollator = new Intl.Collator('zh-CN-u-co-pinyin', { numeric: true, sensitivity: 'base' });
+        
+        function getProgress(book) {
+            if (book.readingStatus === 'finished') {
+                return 100;
+            }
+            return book.totalLines > 0 ? Math.round((book.progress / book.totalLines) * 100) : 0;
+        }
+        
+        // 没有阅读状态的文档（例如早于阅读状态功能读过的）按进度判断为在读或未读
+        function getReadingState(book) {
+            return book.readingStatus || (book.progress > 0 ? 'reading' : 'unread');
+        }
+        
+        // 按阅读状态分组时各分组的名称和顺序
+        const statusSections = {
+            reading: '📖 在读',
+            wantToRead: '🔖 想读',
+            unread: '📚 未读',
+            finished: '✅ 已读完',
+            dropped: '💤 弃读'
+        };
+        const statusLabels = { unread: '未读', wantToRead: '想读', reading: '在读', finished: '已读完', dropped: '弃读' };
+        
+        const sortKeys = {
+            title: (a, b) => titleCollator.compare(getTitle(a), getTitle(b)),
+            progress: (a, b) => getProgress(a) - getProgress(b),
+            size: (a, b) => a.size - b.size,
+            lastRead: (a, b) => new Date(a.lastReadTime).getTime() - new Date(b.lastReadTime).getTime(),
+            added: (a, b) => new Date(a.addedTime).getTime() - new Date(b.addedTime).getTime()
+        };
+        
+        function getTitle(book) {
+            return (book.metadata && book.metadata.title) || book.fileName;
+        }
+        
+        const searchFields = { '作者': 'author', author: 'author', '系列': 'series', series: 'series', '标签': 'tags', tag: 'tags' };
+        
+        function getSearchText(book, field) {
+            const metadata = book.metadata || {};
+            if (field === 'tags') {
+                return (metadata.tags || []).join('\\n');
+            }
+            if (field) {
+                return metadata[field] || '';
+            }
+            return [getTitle(book), book.fileName, metadata.author, metadata.series, (metadata.tags || []).join('\\n'),
+                metadata.notes, book.category, getRootLabel(book.root)].join('\\n');
+        }
+        
+        // 搜索词以空格分隔，需要全部匹配；“作者:某某”等形式只在对应的信息中查找
+        function matchesQuery(book, query) {
+            return query.split(/\s+/).filter(term => term).every(term => {
+                const match = term.match(/^([^:：]+)[:：](.*)$/);
+                const field = match ? searchFields[match[1]] : undefined;
+                const text = field ? match[2] : term;
+                return getSearchText(book, field).toLowerCase().includes(text);
+            });
+        }
+        
+        function filterByTag(event, tag) {
+            event.stopPropagation();
+            document.getElementById('search-input').value = '标签:' + tag;
+            renderCurrentBooks();
+        }
+        
+        function applyView(books) {
+            const query = document.getElementById('search-input').value.trim().toLowerCase();
+            const compare = sortKeys[view.sortBy] || sortKeys.lastRead;
+            return books
+                .filter(book => view.filter === 'all' || getReadingState(book) === view.filter)
+                .filter(book => matchesQuery(book, query))
+                // 相同时按书名排序，保证顺序稳定
+                .sort((a, b) => (view.descending ? compare(b, a) : compare(a, b)) || sortKeys.title(a, b));
+        }
+        
+        function updateToolbar() {
+            document.getElementById('filter-select').value = view.filter;
+            document.getElementById('sort-select').value = view.sortBy;
+            document.getElementById('group-select').value = view.groupBy;
+            const sortOrder = document.getElementById('sort-order');
+            sortOrder.textContent = view.descending ? '↓ 降序' : '↑ 升序';
+        }
+        
+        function saveView() {
+            vscode.postMessage({ command: 'saveView', view: view });
+        }
+        
+        function changeView() {
+            view.filter = document.getElementById('filter-select').value;
+            saveView();
+            renderCurrentBooks();
+        }
+        
+        // 切换排序方式时书名默认升序，其余默认降序
+        function changeSort() {
+            view.sortBy = document.getElementById('sort-select').value;
+            view.descending = view.sortBy !== 'title';
+            updateToolbar();
+            saveView();
+            renderCurrentBooks();
+        }
+        
+        function changeGroup() {
+            view.groupBy = document.getElementById('group-select').value;
+            saveView();
+            renderCurrentBooks();
+        }
+        
+        function toggleSortOrder() {
+            view.descending = !view.descending;
+            updateToolbar();
+            saveView();
+            renderCurrentBooks();
+        }
+        
+        function renderCurrentBooks() {
+            const books = applyView(currentBooks);
+            const booksContainer = document.getElementById('books-container');
+            document.getElementById('result-count').textContent = books.length === currentBooks.length
+                ? \`共 \${currentBooks.length} 本\`
+                : \`\${books.length} / \${currentBooks.length} 本\`;
+            booksContainer.innerHTML = books.length > 0
+                ? renderBooks(books)
+                : '<div class="no-results">没有符合条件的文档</div>';
+        }
+        
+        function toggleCategory(index) {
+            const category = renderedCategories[index];
+            const section = document.querySelector(\`.category[data-index="\${index}"]\`);
+            if (!section) {
+                return;
+            }
+            if (section.classList.toggle('collapsed')) {
+                collapsedCategories.add(category);
+            } else {
+                collapsedCategories.delete(category);
+            }
+            vscode.setState({ ...(vscode.getState() || {}), collapsedCategories: Array.from(collapsedCategories) });
+        }
+        
+        // 文档卡片上显示所在的书库目录（有多个时）和子文件夹
+        function renderBookLocation(book) {
+            const parts = [];
+            if (libraryRoots.length > 1) {
+                parts.push('📚 ' + escapeHtml(getRootLabel(book.root)));
+            }
+            if (book.category) {
+                parts.push('📁 ' + escapeHtml(book.category));
+            }
+            return parts.length > 0 ? \`<div class="book-category" title="\${escapeAttribute(book.filePath)}">\${parts.join(' · ')}</div>\` : '';
+        }
+        
+        // 作者、系列、评分、标签和备注
+        function renderBookMetadata(book) {
+            const metadata = book.metadata || {};
+            const parts = [];
+            if (metadata.author) {
+                parts.push('✍️ ' + escapeHtml(metadata.author));
+            }
+            if (metadata.series) {
+                parts.push('📖 ' + escapeHtml(metadata.series));
+            }
+            if (metadata.rating) {
+                parts.push(\`<span class="book-rating">\${'★'.repeat(metadata.rating)}\${'☆'.repeat(5 - metadata.rating)}</span>\`);
+            }
+            let html = parts.length > 0 ? \`<div class="book-meta">\${parts.join(' · ')}</div>\` : '';
+            if (metadata.tags && metadata.tags.length > 0) {
+                html += \`<div class="book-tags">\${metadata.tags.map(tag =>
+                    \`<span class="book-tag" title="筛选此标签" data-tag="\${escapeAttribute(tag)}" onclick="filterByTag(event, this.dataset.tag)">\${escapeHtml(tag)}</span>\`
+                ).join('')}</div>\`;
+            }
+            if (metadata.notes) {
+                html += \`<div class="book-notes" title="\${escapeAttribute(metadata.notes)}">📝 \${escapeHtml(metadata.notes)}</div>\`;
+            }
+            return html;
+        }
+        
+        // 阅读状态和开始、读完的日期
+        function renderReadingStatus(book) {
+            const state = getReadingState(book);
+            let dates = '';
+            if (book.finishedTime) {
+                dates = (book.startedTime ? formatDate(book.startedTime) + ' ~ ' : '') + formatDate(book.finishedTime) + ' 读完';
+            } else if (book.startedTime) {
+                dates = formatDate(book.startedTime) + ' 开始';
+            }
+            return \`
+                <div class="book-info-row">
+                    <span>状态：<span class="book-status book-status-\${state}">\${statusLabels[state]}</span></span>
+                    <span>\${dates}</span>
+                </div>
+            \`;
+        }
+        
+        function formatDate(isoString) {
+            return new Date(isoString).toLocaleDateString('zh-CN');
+        }
+        
+        function renderBookCard(book) {
+            const progress = getProgress(book);
+            const lastRead = formatLastReadTime(book.lastReadTime);
+            
+            return \`
+                <div class="book-card" onclick="openBook('\${book.filePath.replace(/\\\\/g, '\\\\\\\\')}')">
+                    \${book.cover ? \`<img class="book-cover" src="\${book.cover}" alt="">\` : ''}
+                    <div class="book-main">
+                        <div class="book-header">
+                            <div class="book-title" title="\${escapeAttribute(book.fileName)}">\${escapeHtml(getTitle(book))}</div>
+                            <button class="book-config-btn" onclick="configureBook(event, '\${book.filePath.replace(/\\\\/g, '\\\\\\\\')}')">⚙️</button>
+                        </div>
+                        \${renderBookMetadata(book)}
+                        \${renderBookLocation(book)}
+                        <div class="book-info">
+                            \${renderReadingStatus(book)}
+                            <div class="book-info-row">
+                                <span>总行数：\${book.totalLines.toLocaleString()}</span>
+                                <span>进度：\${progress}%</span>
+                            </div>
+                            <div class="book-info-row">
+                                <span>上次阅读：\${lastRead}</span>
+                                <span>\${formatFileSize(book.size)}</span>
+                            </div>
+                        </div>
+                        <div class="progress-bar">
+                            <div class="progress-fill" style="width: \${progress}%"></div>
+                        </div>
+                    </div>
+                </div>
+            \`;
+        }
+        
+        /**
+         * 按阅读状态分组，或按所在书库目录和子文件夹分组（只有一个书库目录且所有文档都在其根目录时不分组）
+         */
+        function renderBooks(books) {
+            const byStatus = view.groupBy === 'status';
+            const groups = new Map();
+            books.forEach(book => {
+                const category = byStatus ? statusSections[getReadingState(book)] : getGroupName(book);
+                if (!groups.has(category)) {
+                    groups.set(category, []);
+                }
+                groups.get(category).push(book);
+            });
+            
+            if (!byStatus && groups.size === 1 && groups.has('')) {
+                renderedCategories = [];
+                return \`<div class="books-grid">\${books.map(renderBookCard).join('')}</div>\`;
+            }
+            
+            // 按书库目录的顺序排列，同一书库目录中根目录的文档排在最前，其余分类按名称排序
+            const rootIndex = category => libraryRoots.findIndex(root => groups.get(category)[0].root === root.path);
+            const sectionOrder = Object.values(statusSections);
+            renderedCategories = Array.from(groups.keys()).sort((a, b) => {
+                if (byStatus) {
+                    return sectionOrder.indexOf(a) - sectionOrder.indexOf(b);
+                }
+                if (rootIndex(a) !== rootIndex(b)) {
+                    return rootIndex(a) - rootIndex(b);
+                }
+                if (!a || !b) {
+                    return a ? 1 : -1;
+                }
+                return a.localeCompare(b, 'zh-CN');
+            });
+            return renderedCategories.map((category, index) => {
+                const items = groups.get(category);
+                return \`
+                    <div class="category\${collapsedCategories.has(category) ? ' collapsed' : ''}" data-index="\${index}">
+                        <div class="category-header" onclick="toggleCategory(\${index})">
+                            <span class="category-toggle">▾</span>
+                            <span>\${escapeHtml(category || '根目录')}</span>
+                            <span class="category-count">\${items.length} 本</span>
+                        </div>
+                        <div class="books-grid">\${items.map(renderBookCard).join('')}</div>
+                    </div>
+                \`;
+            }).join('');
+        }
+        
         function formatFileSize(bytes) {
             if (bytes === 0) return '0 B';
             const k = 1024;
@@ -366,60 +1158,43 @@ export class BookshelfProvider {
             return div.innerHTML;
         }
         
+        function escapeAttribute(text) {
+            return escapeHtml(text).replace(/"/g, '&quot;');
+        }
+        
         window.addEventListener('message', event => {
             const message = event.data;
             
             if (message.command === 'updateBooks') {
                 const emptyState = document.getElementById('empty-state');
-                const booksGrid = document.getElementById('books-grid');
+                const booksContainer = document.getElementById('books-container');
                 const directoryInfo = document.getElementById('directory-info');
+                const toolbar = document.getElementById('toolbar');
+                
+                libraryRoots = message.roots || [];
+                currentBooks = message.books;
                 
                 if (!message.hasDirectory || message.books.length === 0) {
                     emptyState.style.display = 'block';
-                    booksGrid.style.display = 'none';
+                    booksContainer.style.display = 'none';
                     directoryInfo.style.display = 'none';
+                    toolbar.style.display = 'none';
                     
                     if (message.hasDirectory) {
                         emptyState.innerHTML = \`
                             <div class="empty-state-icon">📂</div>
-                            <h2>目录中没有找到文档</h2>
-                            <p>当前目录：\${escapeHtml(message.directory)}</p>
-                            <button class="btn" onclick="selectDirectory()">重新选择目录</button>
+                            <h2>书库目录中没有找到文档</h2>
+                            <p>\${libraryRoots.map(renderRootInfo).join('')}</p>
+                            <button class="btn" onclick="openSettings()">管理书库目录</button>
                         \`;
                     }
                 } else {
                     emptyState.style.display = 'none';
-                    booksGrid.style.display = 'grid';
+                    booksContainer.style.display = 'block';
                     directoryInfo.style.display = 'block';
-                    directoryInfo.innerHTML = \`<strong>文档目录：</strong> \${escapeHtml(message.directory)}\`;
-                    
-                    booksGrid.innerHTML = message.books.map(book => {
-                        const progress = book.totalLines > 0 
-                            ? Math.round((book.progress / book.totalLines) * 100) 
-                            : 0;
-                        const lastRead = formatLastReadTime(book.lastReadTime);
-                        
-                        return \`
-                            <div class="book-card" onclick="openBook('\${book.filePath.replace(/\\\\/g, '\\\\\\\\')}')">
-                                <div class="book-header">
-                                    <div class="book-title">\${escapeHtml(book.fileName)}</div>
-                                    <button class="book-config-btn" onclick="configureBook(event, '\${book.filePath.replace(/\\\\/g, '\\\\\\\\')}')">⚙️</button>
-                                </div>
-                                <div class="book-info">
-                                    <div class="book-info-row">
-                                        <span>总行数：\${book.totalLines.toLocaleString()}</span>
-                                        <span>进度：\${progress}%</span>
-                                    </div>
-                                    <div class="book-info-row">
-                                        <span>上次阅读：\${lastRead}</span>
-                                    </div>
-                                </div>
-                                <div class="progress-bar">
-                                    <div class="progress-fill" style="width: \${progress}%"></div>
-                                </div>
-                            </div>
-                        \`;
-                    }).join('');
+                    toolbar.style.display = 'flex';
+                    directoryInfo.innerHTML = \`<strong>书库目录：</strong> \${libraryRoots.map(renderRootInfo).join('')}\`;
+                    renderCurrentBooks();
                 }
             }
         });
@@ -446,6 +1221,7 @@ export class BookshelfProvider {
         }
         
         // 请求初始数据
+        updateToolbar();
         refresh();
     </script>
 </body>
@@ -0,0 +1,237 @@
+import { readBookRange, statBook } from './bookFile';
+import { decodeText, detectFileEncoding } from './encoding';
+
+export interface ChapterPatternPreset {
+    id: string;
+    label: string; // 显示名称
+    pattern: string; // 章节标题正则
+    volumePattern?: string; // 卷标题正则（分卷目录使用）
+    example: string; // 匹配示例
+}
+
+export interface ChapterPatternCandidate {
+    preset: ChapterPatternPreset;
+    matches: number; // 样本中匹配到的章节数
+    estimatedChapters: number; // 按样本比例估算的全书章节数
+    averageGap: number; // 样本中章节之间的平均间隔（行）
+    score: number;
+}
+
+const chineseNumber = '[0-9０-９零〇一二三四五六七八九十百千万两]+';
+// 标题与序号之间允许空格、全角空格或冒号，也允许只有序号
+const titleSuffix = '(?:[\\s　：:].*)?';
+
+/**
+ * 内置章节分割规则
+ */
+export const chapterPatternPresets: ChapterPatternPreset[] = [
+    {
+        id: 'chinese-chapter',
+        label: '第X章 标题',
+        pattern: `^第${chineseNumber}[章节回]${titleSuffix}$`,
+        example: '第一章 风起'
+    },
+    {
+        id: 'chinese-volume-chapter',
+        label: '第X卷 / 第X章',
+        pattern: `^第${chineseNumber}[章节回]${titleSuffix}$`,
+        volumePattern: `^第${chineseNumber}[卷部集]${titleSuffix}$`,
+        example: '第一卷 少年 / 第一章 风起'
+    },
+    {
+        id: 'chinese-chapter-extra',
+        label: '第X章 + 序章/楔子/番外',
+        pattern: `^(?:第${chineseNumber}[章节回]|序章|序言|楔子|引子|尾声|终章|后记|番外${chineseNumber}?)${titleSuffix}$`,
+        example: '楔子 / 第一章 风起 / 番外一'
+    },
+    {
+        id: 'number-dunhao',
+        label: '数字、标题',
+        pattern: '^[0-9０-９]+、.+$',
+        example: '1、风起'
+    },
+    {
+        id: 'chinese-number-dunhao',
+        label: '一、标题',
+        pattern: '^[零〇一二三四五六七八九十百千]+、.+$',
+        example: '一、风起'
+    },
+    {
+        id: 'number-dot',
+        label: '数字. 标题',
+        pattern: '^[0-9]+\\.\\s*.+$',
+        example: '1. 风起'
+    },
+    {
+        id: 'number-space',
+        label: '数字 标题',
+        pattern: '^[0-9]+\\s+.+$',
+        example: '1 风起'
+    },
+    {
+        id: 'english-chapter',
+        label: 'Chapter N',
+        pattern: '^(?:Chapter|CHAPTER)\\s+(?:[0-9]+|[IVXLCDM]+)\\b.*$',
+        example: 'Chapter 1 / CHAPTER IV'
+    }
+];
+
+/**
+ * 按 id 查找预设
+ */
+export function getChapterPatternPreset(id: string | undefined): ChapterPatternPreset | undefined {
+    return chapterPatternPresets.find(preset => preset.id === id);
+}
+
+/**
+ * 查找章节规则和卷规则都完全相同的预设（自定义规则返回 undefined）
+ */
+export function findPresetByPattern(pattern: string, volumePattern?: string): ChapterPatternPreset | undefined {
+    return chapterPatternPresets.find(
+        preset => preset.pattern === pattern && (preset.volumePattern || '') === (volumePattern || '')
+    );
+}
+
+const sampleWindowSize = 512 * 1024;
+const sampleWindowCount = 4;
+const maxTitleLength = 50;
+
+/**
+ * 从文件开头、中间各处读取若干样本窗口，丢弃窗口首尾不完整的行
+ */
+async function readSampleWindows(filePath: string, encoding: string): Promise<{ windows: string[][]; sampledBytes: number; fileSize: number }> {
+    const { size } = await statBook(filePath);
+    const windowCount = size <= sampleWindowSize * sampleWindowCount ? 1 : sampleWindowCount;
+    const windowSize = windowCount === 1 ? size : sampleWindowSize;
+    const windows: string[][] = [];
+    let sampledBytes = 0;
+
+    for (let i = 0; i < windowCount; i++) {
+        let start = windowCount === 1 ? 0 : Math.floor((size - windowSize) * i / (windowCount - 1));
+        if (encoding === 'utf-16le' || encoding === 'utf-16be') {
+            // UTF-16 需从码元边界开始读取
+            start -= start % 2;
+        }
+        const buffer = await readBookRange(filePath, start, windowSize);
+        const bytesRead = buffer.length;
+        const lines = decodeText(buffer, encoding).split('\n');
+        if (windowCount > 1) {
+            if (start > 0) {
+                lines.shift();
+            }
+            if (start + bytesRead < size) {
+                lines.pop();
+            }
+        }
+        windows.push(lines);
+        sampledBytes += bytesRead;
+    }
+
+    return { windows, sampledBytes, fileSize: size };
+}
+
+/**
+ * 评估一个规则在样本中的表现：章节数合理、间隔均匀的得分更高
+ */
+function evaluatePreset(
+    preset: ChapterPatternPreset,
+    windows: string[][],
+    scale: number,
+    matchedLines: Set<string>
+): ChapterPatternCandidate {
+    const regExp = new RegExp(preset.pattern);
+    const volumeRegExp = preset.volumePattern ? new RegExp(preset.volumePattern) : undefined;
+    const gaps: number[] = [];
+    let matches = 0;
+    let volumes = 0;
+    let longTitles = 0;
+    let totalLines = 0;
+
+    windows.forEach((lines, windowIndex) => {
+        let previous = -1;
+        lines.forEach((line, index) => {
+            const trimmed = line.trim();
+            if (!trimmed) {
+                return;
+            }
+            if (volumeRegExp && volumeRegExp.test(trimmed)) {
+                volumes++;
+                matchedLines.add(`${windowIndex}:${index}`);
+                return;
+            }
+            if (!regExp.test(trimmed)) {
+                return;
+            }
+            matches++;
+            matchedLines.add(`${windowIndex}:${index}`);
+            if (trimmed.length > maxTitleLength) {
+                longTitles++;
+            }
+            if (previous !== -1) {
+                gaps.push(index - previous);
+            }
+            previous = index;
+        });
+        totalLines += lines.length;
+    });
+
+    const averageGap = matches > 0 ? Math.round(totalLines / matches) : 0;
+    const candidate: ChapterPatternCandidate = {
+        preset,
+        matches,
+        estimatedChapters: Math.round(matches * scale),
+        averageGap,
+        score: 0
+    };
+
+    // 匹配过少、过密或大量匹配到长句，多半是误匹配正文；分卷规则在样本中没有卷标题时不适用
+    if (matches < 2 || averageGap < 5 || longTitles > matches * 0.2 || (volumeRegExp && volumes === 0)) {
+        return candidate;
+    }
+
+    const mean = gaps.length > 0 ? gaps.reduce((sum, gap) => sum + gap, 0) / gaps.length : averageGap;
+    const variance = gaps.length > 0
+        ? gaps.reduce((sum, gap) => sum + (gap - mean) * (gap - mean), 0) / gaps.length
+        : 0;
+    const regularity = 1 / (1 + Math.sqrt(variance) / mean);
+    candidate.score = Math.round(regularity * Math.log2(1 + matches) * 100) / 100;
+    return candidate;
+}
+
+/**
+ * 抽样检测文档的章节格式，按得分从高到低返回可用的预设（没有合适的规则时返回空数组）
+ */
+export async function detectChapterPattern(filePath: string, encoding?: string): Promise<ChapterPatternCandidate[]> {
+    const resolvedEncoding = encoding || (await detectFileEncoding(filePath)).encoding;
+    const { windows, sampledBytes, fileSize } = await readSampleWindows(filePath, resolvedEncoding);
+    const scale = sampledBytes > 0 ? fileSize / sampledBytes : 1;
+
+    const matchedLines = new Map<ChapterPatternCandidate, Set<string>>();
+    const candidates = chapterPatternPresets
+        .map(preset => {
+            const lines = new Set<string>();
+            const candidate = evaluatePreset(preset, windows, scale, lines);
+            matchedLines.set(candidate, lines);
+            return candidate;
+        })
+        .filter(candidate => candidate.score > 0)
+        .sort((a, b) => b.score - a.score);
+
+    // 额外匹配到卷名、序章等少量标题会让间隔变得不均匀，
+    // 得分接近且完全覆盖最佳结果的规则信息更全，优先推荐
+    if (candidates.length > 1) {
+        const best = candidates[0];
+        const bestLines = matchedLines.get(best)!;
+        const superset = candidates.slice(1).find(candidate => {
+            const lines = matchedLines.get(candidate)!;
+            return candidate.score >= best.score * 0.8
+                && candidate.matches <= best.matches * 1.2
+                && [...bestLines].every(line => lines.has(line));
+        });
+        if (superset) {
+            candidates.splice(candidates.indexOf(superset), 1);
+            candidates.unshift(superset);
+        }
+    }
+    return candidates;
+}
@@ -0,0 +1,203 @@
+import { TextDecoder } from 'util';
+import { readBookRange } from './bookFile';
+
+export interface EncodingInfo {
+    encoding: string; // TextDecoder 可识别的编码名称
+    label: string; // 显示名称
+}
+
+export interface DetectedEncoding {
+    encoding: string;
+    confidence: number; // 0 - 1
+    bomLength: number; // BOM 字节数（无 BOM 时为 0）
+}
+
+/**
+ * 支持的编码列表
+ */
+export const supportedEncodings: EncodingInfo[] = [
+    { encoding: 'utf-8', label: 'UTF-8' },
+    { encoding: 'gb18030', label: 'GB18030 / GBK（简体中文）' },
+    { encoding: 'big5', label: 'Big5（繁体中文）' },
+    { encoding: 'shift_jis', label: 'Shift_JIS（日文）' },
+    { encoding: 'utf-16le', label: 'UTF-16 LE' },
+    { encoding: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+// 常用汉字（简繁各取高频字），用于判断多字节编码解码结果是否“像正常文本”
+const commonHanzi = new Set(
+    '的一是不了人我在有他这中大来上个国到说们为子和你地出道也时年得就那要下以生会自着去之过家学对可她里后小么心多天而能好都然没日于起还发成事只作当想看文无开手十用主行方又如前所本见经头面公同三已老从动两长知民样现分将外但身些与高意进把法此实回二理美点月明其种声全工己话儿者向情部正名定女问力机给等几很业最间新什打便位因重被走电四第门相次东政海口使教西再平真听世气信北少关并内加化由却代军产入先山五太水万市眼体别处总才场师书比住员九笑性通目华报立马命张活难神数件安表原车白应路期叫死常提感金何更反合放做系计或司利受光王果亲界及今京务制解各任至清物台象记边共风战干接它许八特觉望直服毛林题建南度统色字请交爱让认算论百吃义科怎元社术结六功指思非流每青管夫连远资队跟带花快条院变联言权往展该领传近留红治决周保达办运武半候七必城父强步完革深区即求品士转量空甚众技轻程告江语英基派满式李息写呢识极令黄德收脸钱党倒未持取设始版双历越史商千片容研像找友孩站广改议形委早房音火际则首单据导影失拿网香似斯专石若兵弟谁校读志飞观争究包组造落视济喜离虽坏兴切府称門們這個來說為對時會過後國還麼經點開見學裡著樣現東長問從動兩發無當實關將義與裡頭聽氣應讓進話兒處間邊車書總幾'
+);
+
+const isCjk = (code: number) => code >= 0x4e00 && code <= 0x9fff;
+const isKana = (code: number) => code >= 0x3040 && code <= 0x30ff;
+
+/**
+ * 检测文件开头的 BOM
+ */
+function sniffBom(buffer: Uint8Array): DetectedEncoding | null {
+    if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+        return { encoding: 'utf-8', confidence: 1, bomLength: 3 };
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) {
+        return { encoding: 'utf-16le', confidence: 1, bomLength: 2 };
+    }
+    if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) {
+        return { encoding: 'utf-16be', confidence: 1, bomLength: 2 };
+    }
+    return null;
+}
+
+/**
+ * 无 BOM 时，根据奇偶位置上的 0 字节比例猜测 UTF-16
+ */
+function guessUtf16(buffer: Uint8Array): DetectedEncoding | null {
+    const length = Math.min(buffer.length, 4096) & ~1;
+    if (length < 4) {
+        return null;
+    }
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < length; i += 2) {
+        if (buffer[i] === 0) {
+            evenZeros++;
+        }
+        if (buffer[i + 1] === 0) {
+            oddZeros++;
+        }
+    }
+
+    const pairs = length / 2;
+    if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+        return { encoding: 'utf-16le', confidence: Math.min(1, oddZeros / pairs + 0.5), bomLength: 0 };
+    }
+    if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+        return { encoding: 'utf-16be', confidence: Math.min(1, evenZeros / pairs + 0.5), bomLength: 0 };
+    }
+    return null;
+}
+
+/**
+ * 对解码结果打分：非法字符直接淘汰，其余按常用字比例评估
+ */
+function scoreDecoding(buffer: Uint8Array, encoding: string): number {
+    let text: string;
+    try {
+        // stream 模式下末尾被截断的多字节字符不会报错
+        text = new TextDecoder(encoding, { fatal: true }).decode(buffer, { stream: true });
+    } catch {
+        return 0;
+    }
+
+    let multiByteChars = 0;
+    let plausibleChars = 0;
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        if (code < 0x80) {
+            continue;
+        }
+        multiByteChars++;
+        if (commonHanzi.has(char)) {
+            plausibleChars++;
+        } else if (encoding === 'shift_jis' && isKana(code)) {
+            plausibleChars++;
+        } else if ((code >= 0x3000 && code <= 0x303f) || (code >= 0xff00 && code <= 0xffef)) {
+            // 全角标点
+            plausibleChars += 0.5;
+        } else if (code >= 0xe000 && code <= 0xf8ff) {
+            // 私用区字符基本意味着解码错误
+            plausibleChars -= 1;
+        } else if (!isCjk(code) && !isKana(code)) {
+            plausibleChars -= 0.2;
+        }
+    }
+
+    if (multiByteChars === 0) {
+        return 0;
+    }
+    return Math.max(0, plausibleChars / multiByteChars);
+}
+
+/**
+ * 检测缓冲区的编码，返回最可能的编码及置信度
+ */
+export function detectEncoding(buffer: Uint8Array): DetectedEncoding {
+    const bom = sniffBom(buffer);
+    if (bom) {
+        return bom;
+    }
+
+    const utf16 = guessUtf16(buffer);
+    if (utf16) {
+        return utf16;
+    }
+
+    // 合法的 UTF-8 几乎不会是巧合
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(buffer, { stream: true });
+        return { encoding: 'utf-8', confidence: 1, bomLength: 0 };
+    } catch {
+        // 继续尝试其他编码
+    }
+
+    // 中文为主的 UTF-16 文本几乎没有 0 字节，同样需要按解码结果打分
+    const candidates = ['gb18030', 'big5', 'shift_jis', 'utf-16le', 'utf-16be'].map(encoding => ({
+        encoding,
+        score: scoreDecoding(buffer, encoding)
+    }));
+    candidates.sort((a, b) => b.score - a.score);
+
+    const best = candidates[0];
+    const second = candidates[1];
+    // 领先幅度越大，置信度越高
+    const confidence = best.score > 0
+        ? Math.min(1, best.score * 0.6 + (best.score - second.score) * 0.8)
+        : 0;
+
+    return { encoding: best.encoding, confidence: Math.round(confidence * 100) / 100, bomLength: 0 };
+}
+
+/**
+ * 读取文件开头的样本并检测编码
+ */
+export async function detectFileEncoding(filePath: string, sampleSize: number = 64 * 1024): Promise<DetectedEncoding> {
+    return detectEncoding(await readBookRange(filePath, 0, sampleSize));
+}
+
+/**
+ * 获取文件的 BOM 长度（BOM 与指定编码不符时视为无 BOM）
+ */
+export async function getBomLength(filePath: string, encoding: string): Promise<number> {
+    const bom = sniffBom(await readBookRange(filePath, 0, 3));
+    return bom && bom.encoding === encoding ? bom.bomLength : 0;
+}
+
+/**
+ * 按指定编码解码（容错模式，无法解码的字节替换为 �）
+ */
+export function decodeText(buffer: Uint8Array, encoding: string): string {
+    try {
+        return new TextDecoder(encoding).decode(buffer);
+    } catch {
+        return new TextDecoder().decode(buffer);
+    }
+}
+
+/**
+ * 创建流式解码器，正确处理跨数据块的多字节字符
+ */
+export function createStreamDecoder(encoding: string): TextDecoder {
+    try {
+        return new TextDecoder(encoding);
+    } catch {
+        return new TextDecoder();
+    }
+}
+
+/**
+ * 获取编码的显示名称
+ */
+export function getEncodingLabel(encoding: string): string {
+    return supportedEncodings.find(e => e.encoding === encoding)?.label ?? encoding;
+}
@@ -0,0 +1,464 @@
+import * as path from 'path';
+import { ZipArchive } from './zipArchive';
+
+export interface EpubTocEntry {
+    title: string;
+    line: number; // 在全书行列表中的行号
+    depth: number; // 在目录中的层级（从 0 开始）
+    hasChildren: boolean;
+}
+
+export interface EpubSpineItem {
+    href: string; // 在压缩包中的路径
+    startLine: number; // 该章节第一行在全书行列表中的行号
+    lineCount: number;
+}
+
+/**
+ * 阅读位置：所在的书脊条目及在其中的行偏移，书中其他章节的内容变化时仍能定位
+ */
+export interface EpubPosition {
+    href: string;
+    offset: number;
+}
+
+export interface EpubBook {
+    title?: string;
+    author?: string;
+    lines: string[]; // 纯文本行（用于搜索、章节、书签等）
+    htmlLines: string[]; // 与 lines 一一对应的已过滤 HTML（用于显示）
+    spine: EpubSpineItem[];
+    toc: EpubTocEntry[];
+}
+
+/**
+ * 判断是否为 EPUB 文件
+ */
+export function isEpubFile(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() === '.epub';
+}
+
+export const maxImageSize = 2 * 1024 * 1024; // 超过该大小的图片不内嵌显示
+
+// 显示时保留的行内标签（去掉所有属性）
+const inlineTags = new Set(['b', 'strong', 'i', 'em', 'u', 's', 'del', 'sub', 'sup', 'small', 'code', 'ruby', 'rt', 'rp']);
+// 每个块级元素成为单独的一行
+const blockTags = new Set([
+    'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'section', 'article',
+    'header', 'footer', 'aside', 'tr', 'dt', 'dd', 'figure', 'figcaption', 'pre', 'hr', 'table', 'ul', 'ol', 'dl'
+]);
+// 连同内容一起丢弃的标签
+const skippedTags = new Set(['head', 'script', 'style', 'noscript', 'iframe', 'object', 'embed', 'math', 'form', 'button', 'template']);
+
+export const imageTypes: { [extension: string]: string } = {
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    png: 'image/png',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    bmp: 'image/bmp'
+};
+
+const namedEntities: { [name: string]: string } = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ', hellip: '…', mdash: '—', ndash: '–',
+    ldquo: '“', rdquo: '”', lsquo: '‘', rsquo: '’', middot: '·', laquo: '«', raquo: '»', copy: '©', times: '×'
+};
+
+/**
+ * 解码 HTML 实体（只包含常用的命名实体）
+ */
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, name: string) => {
+        if (name[0] === '#') {
+            const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1), 10);
+            return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+        }
+        return namedEntities[name] ?? entity;
+    });
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function parseAttributes(source: string): { [name: string]: string } {
+    const attributes: { [name: string]: string } = {};
+    const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(source)) !== null) {
+        attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3]);
+    }
+    return attributes;
+}
+
+/**
+ * 把相对链接解析为压缩包内的路径，返回路径和 # 后的锚点
+ */
+function resolveHref(baseFile: string, href: string): { file: string; fragment?: string } {
+    const [file, fragment] = href.split('#');
+    let resolved = baseFile;
+    if (file) {
+        try {
+            resolved = path.posix.normalize(path.posix.join(path.posix.dirname(baseFile), decodeURIComponent(file)));
+        } catch {
+            resolved = path.posix.normalize(path.posix.join(path.posix.dirname(baseFile), file));
+        }
+    }
+    return { file: resolved.replace(/^\.\//, ''), fragment: fragment || undefined };
+}
+
+// 简单的标签扫描器：依次返回注释、标签和文本（使用时复制一份，避免共享 lastIndex）
+const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:.-]*)([^>]*?)(\/?)>|([^<]+)/g;
+
+export interface HtmlContent {
+    lines: string[];
+    htmlLines: string[];
+    anchors: Map<string, number>; // 元素 id -> 行偏移
+    headings: { offset: number; level: number }[]; // h1 ~ h6 标题所在的行偏移和级别
+}
+
+/**
+ * 把 (X)HTML 转换为行：块级元素各占一行，只保留安全的行内格式；
+ * 提供 loadImage 时图片转换为内嵌的 data URI，否则丢弃
+ */
+export async function convertHtml(
+    source: string,
+    loadImage?: (src: string) => Promise<string | undefined>
+): Promise<HtmlContent> {
+    const result: HtmlContent = { lines: [], htmlLines: [], anchors: new Map(), headings: [] };
+    let text = '';
+    let html = '';
+    let hasImage = false;
+    let openInline: string[] = [];
+    let skipDepth = 0;
+    let skipTag = '';
+    let preDepth = 0;
+    let headingDepth = 0;
+    let headingLevel = 0; // 尚未输出第一行的标题级别
+
+    const flush = () => {
+        const plain = text.replace(/[ \t\r\n]+/g, ' ').trim();
+        if (plain || hasImage) {
+            let line = html.replace(/[ \t\r\n]+/g, ' ').trim() + openInline.slice().reverse().map(tag => `</${tag}>`).join('');
+            if (headingDepth > 0) {
+                line = `<span class="epub-heading">${line}</span>`;
+                if (headingLevel > 0) {
+                    result.headings.push({ offset: result.lines.length, level: headingLevel });
+                    headingLevel = 0;
+                }
+            }
+            result.lines.push(plain);
+            result.htmlLines.push(line);
+        }
+        text = '';
+        html = '';
+        hasImage = false;
+        openInline = [];
+    };
+    const appendText = (value: string) => {
+        if (preDepth > 0 && value.includes('\n')) {
+            // 预格式文本按原有的换行分行
+            value.split('\n').forEach((part, index) => {
+                if (index > 0) {
+                    flush();
+                }
+                text += part;
+                html += escapeHtml(part);
+            });
+            return;
+        }
+        text += value;
+        html += escapeHtml(value);
+    };
+
+    const tokens = new RegExp(tokenPattern.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(source)) !== null) {
+        const [, cdata, closing, rawTag, attributeSource, selfClosing, rawText] = match;
+        const tag = rawTag?.toLowerCase().replace(/^.*:/, '');
+
+        if (skipDepth > 0) {
+            if (tag === skipTag) {
+                skipDepth += closing ? -1 : selfClosing ? 0 : 1;
+            }
+            continue;
+        }
+        if (rawText !== undefined || cdata !== undefined) {
+            appendText(rawText !== undefined ? decodeEntities(rawText) : cdata);
+            continue;
+        }
+        if (!tag) {
+            continue; // 注释、DOCTYPE、XML 声明
+        }
+
+        if (!closing) {
+            const attributes = parseAttributes(attributeSource);
+            if (attributes.id) {
+                // 锚点指向元素所在的行（块级元素从下一行开始）
+                result.anchors.set(attributes.id, result.lines.length + (blockTags.has(tag) && (text.trim() || hasImage) ? 1 : 0));
+            }
+            if (skippedTags.has(tag)) {
+                if (!selfClosing) {
+                    skipDepth = 1;
+                    skipTag = tag;
+                }
+                continue;
+            }
+            if (tag === 'img' || tag === 'image') {
+                const src = attributes.src || attributes['href'] || attributes['xlink:href'];
+                const image = src && loadImage ? await loadImage(src) : undefined;
+                if (image) {
+                    html += `<img src="${image}" alt="${escapeHtml(attributes.alt || '').replace(/"/g, '&quot;')}">`;
+                    hasImage = true;
+                }
+                continue;
+            }
+        }
+
+        if (tag === 'br') {
+            flush();
+        } else if (blockTags.has(tag)) {
+            flush();
+            if (tag === 'pre') {
+                preDepth += closing ? -1 : 1;
+            } else if (/^h[1-6]$/.test(tag) && !selfClosing) {
+                headingDepth = Math.max(0, headingDepth + (closing ? -1 : 1));
+                headingLevel = closing ? 0 : Number(tag[1]);
+            }
+        } else if (inlineTags.has(tag) && !selfClosing) {
+            if (!closing) {
+                html += `<${tag}>`;
+                openInline.push(tag);
+            } else {
+                const index = openInline.lastIndexOf(tag);
+                if (index !== -1) {
+                    // 关闭该标签及其内未闭合的标签
+                    html += openInline.slice(index).reverse().map(name => `</${name}>`).join('');
+                    openInline = openInline.slice(0, index);
+                }
+            }
+        }
+    }
+    flush();
+    return result;
+}
+
+/**
+ * 读取图片并转换为 data URI（不存在或过大时返回 undefined）
+ */
+async function loadArchiveImage(archive: ZipArchive, file: string, src: string): Promise<string | undefined> {
+    const type = imageTypes[path.posix.extname(src.split(/[?#]/)[0]).substring(1).toLowerCase()];
+    const entry = archive.getEntry(resolveHref(file, src).file);
+    if (!type || !entry || entry.size > maxImageSize) {
+        return undefined;
+    }
+    const data = await archive.read(entry);
+    return `data:${type};base64,${data.toString('base64')}`;
+}
+
+interface RawTocEntry {
+    title: string;
+    href: string;
+    depth: number;
+}
+
+/**
+ * 解析 EPUB 2 的 NCX 目录
+ */
+function parseNcx(source: string, ncxFile: string): RawTocEntry[] {
+    const entries: (RawTocEntry & { labelDone?: boolean })[] = [];
+    const stack: (RawTocEntry & { labelDone?: boolean })[] = [];
+    let inText = false;
+
+    const tokens = new RegExp(tokenPattern.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(source)) !== null) {
+        const [, , closing, rawTag, attributeSource, selfClosing, rawText] = match;
+        const tag = rawTag?.toLowerCase().replace(/^.*:/, '');
+        const current = stack[stack.length - 1];
+
+        if (rawText !== undefined) {
+            if (inText && current && !current.labelDone) {
+                current.title += decodeEntities(rawText);
+            }
+        } else if (tag === 'navpoint') {
+            if (closing) {
+                stack.pop();
+            } else if (!selfClosing) {
+                const entry = { title: '', href: '', depth: stack.length };
+                entries.push(entry);
+                stack.push(entry);
+            }
+        } else if (tag === 'text') {
+            inText = !closing;
+            if (closing && current) {
+                current.labelDone = true;
+            }
+        } else if (tag === 'content' && current && !current.href) {
+            const src = parseAttributes(attributeSource).src;
+            if (src) {
+                const { file, fragment } = resolveHref(ncxFile, src);
+                current.href = fragment ? `${file}#${fragment}` : file;
+            }
+        }
+    }
+    return entries.map(({ title, href, depth }) => ({ title: title.replace(/\s+/g, ' ').trim(), href, depth }));
+}
+
+/**
+ * 解析 EPUB 3 导航文档中的 toc 目录
+ */
+function parseNav(source: string, navFile: string): RawTocEntry[] {
+    const navStart = source.search(/<nav[^>]*epub:type\s*=\s*["'][^"']*\btoc\b/i);
+    if (navStart === -1) {
+        return [];
+    }
+    const navEnd = source.indexOf('</nav>', navStart);
+    const nav = source.substring(navStart, navEnd === -1 ? undefined : navEnd);
+
+    const entries: RawTocEntry[] = [];
+    let depth = -1;
+    let current: RawTocEntry | undefined;
+
+    const tokens = new RegExp(tokenPattern.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(nav)) !== null) {
+        const [, , closing, rawTag, attributeSource, , rawText] = match;
+        const tag = rawTag?.toLowerCase();
+
+        if (rawText !== undefined) {
+            if (current) {
+                current.title += decodeEntities(rawText);
+            }
+        } else if (tag === 'ol') {
+            depth += closing ? -1 : 1;
+        } else if (tag === 'a') {
+            if (closing) {
+                current = undefined;
+            } else {
+                const href = parseAttributes(attributeSource).href;
+                if (href) {
+                    const { file, fragment } = resolveHref(navFile, href);
+                    current = { title: '', href: fragment ? `${file}#${fragment}` : file, depth: Math.max(0, depth) };
+                    entries.push(current);
+                }
+            }
+        }
+    }
+    return entries.map(entry => ({ ...entry, title: entry.title.replace(/\s+/g, ' ').trim() }));
+}
+
+/**
+ * 解压并解析 EPUB：读取 OPF 中的书脊顺序，逐章转换为行，并按 NCX / 导航文档生成目录
+ */
+export async function loadEpub(filePath: string): Promise<EpubBook> {
+    const archive = await ZipArchive.open(filePath);
+
+    const container = await archive.readText('META-INF/container.xml');
+    const opfPath = container && parseAttributes(container.match(/<rootfile\b[^>]*>/i)?.[0] ?? '')['full-path'];
+    const opf = opfPath ? await archive.readText(opfPath) : undefined;
+    if (!opfPath || !opf) {
+        throw new Error('EPUB 中缺少 OPF 文件');
+    }
+
+    const metadata = (name: string) => {
+        const value = opf.match(new RegExp(`<dc:${name}\\b[^>]*>([\\s\\S]*?)</dc:${name}>`, 'i'))?.[1];
+        return value ? decodeEntities(value.replace(/<[^>]+>/g, '')).trim() : undefined;
+    };
+
+    const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+    for (const match of opf.matchAll(/<item\b[^>]*>/gi)) {
+        const attributes = parseAttributes(match[0]);
+        if (attributes.id && attributes.href) {
+            manifest.set(attributes.id, {
+                href: resolveHref(opfPath, attributes.href).file,
+                mediaType: attributes['media-type'] || '',
+                properties: attributes.properties || ''
+            });
+        }
+    }
+
+    const book: EpubBook = {
+        title: metadata('title'),
+        author: metadata('creator'),
+        lines: [],
+        htmlLines: [],
+        spine: [],
+        toc: []
+    };
+
+    // 按书脊顺序转换各章节
+    const anchors = new Map<string, number>(); // 'file#id' 或 'file' -> 行号
+    for (const match of opf.matchAll(/<itemref\b[^>]*>/gi)) {
+        const item = manifest.get(parseAttributes(match[0]).idref);
+        const entry = item && archive.getEntry(item.href);
+        if (!item || !entry || !/html|xml/.test(item.mediaType)) {
+            continue;
+        }
+        const startLine = book.lines.length;
+        const chapter = await convertHtml(
+            (await archive.read(entry)).toString('utf-8'),
+            src => loadArchiveImage(archive, item.href, src)
+        );
+        book.lines.push(...chapter.lines);
+        book.htmlLines.push(...chapter.htmlLines);
+        book.spine.push({ href: item.href, startLine, lineCount: chapter.lines.length });
+        anchors.set(item.href, startLine);
+        chapter.anchors.forEach((offset, id) => anchors.set(`${item.href}#${id}`, startLine + offset));
+    }
+
+    // 优先使用 EPUB 3 导航文档，其次为 NCX
+    const navItem = [...manifest.values()].find(item => /\bnav\b/.test(item.properties));
+    const ncxId = opf.match(/<spine\b[^>]*\btoc\s*=\s*["']([^"']+)["']/i)?.[1];
+    const ncxItem = (ncxId && manifest.get(ncxId))
+        || [...manifest.values()].find(item => item.mediaType === 'application/x-dtbncx+xml');
+    let rawToc: RawTocEntry[] = [];
+    if (navItem) {
+        rawToc = parseNav((await archive.readText(navItem.href)) ?? '', navItem.href);
+    }
+    if (rawToc.length === 0 && ncxItem) {
+        rawToc = parseNcx((await archive.readText(ncxItem.href)) ?? '', ncxItem.href);
+    }
+
+    rawToc.forEach((entry, index) => {
+        const line = anchors.get(entry.href) ?? anchors.get(entry.href.split('#')[0]);
+        if (line === undefined || !entry.title) {
+            return;
+        }
+        const next = rawToc[index + 1];
+        book.toc.push({
+            title: entry.title,
+            line: Math.min(line, Math.max(0, book.lines.length - 1)),
+            depth: entry.depth,
+            hasChildren: next !== undefined && next.depth > entry.depth
+        });
+    });
+
+    return book;
+}
+
+/**
+ * 行号转换为书脊位置
+ */
+export function lineToEpubPosition(book: EpubBook, line: number): EpubPosition | undefined {
+    let item: EpubSpineItem | undefined;
+    for (const spineItem of book.spine) {
+        if (spineItem.startLine <= line) {
+            item = spineItem;
+        } else {
+            break;
+        }
+    }
+    return item ? { href: item.href, offset: line - item.startLine } : undefined;
+}
+
+/**
+ * 书脊位置转换为行号（书脊条目不存在时返回 undefined）
+ */
+export function epubPositionToLine(book: EpubBook, position: EpubPosition): number | undefined {
+    const item = book.spine.find(spineItem => spineItem.href === position.href);
+    if (!item) {
+        return undefined;
+    }
+    return item.startLine + Math.min(position.offset, Math.max(0, item.lineCount - 1));
+}
@@ -1,18 +1,28 @@
 import * as vscode from "vscode";
-import { TxtReaderProvider } from "./readerProvider";
+import * as path from "path";
+import { ReaderRegistry } from "./readerRegistry";
 import { BookshelfProvider } from "./bookshelfProvider";
 import { SettingsProvider } from "./settingsProvider";
 import { BookConfigManager } from "./bookConfig";
+import { StatusBarReader } from "./statusBarReader";
+import { textDocumentExtensions } from "./formatAdapter";
+import { isZipFile, listZipBooks, parseZipEntryPath } from "./bookFile";
+import { getLibraryRoots } from "./libraryRoots";
 
-let readerProvider: TxtReaderProvider | undefined;
+let readerRegistry: ReaderRegistry | undefined;
 let bookshelfProvider: BookshelfProvider | undefined;
 let settingsProvider: SettingsProvider | undefined;
+let statusBarReader: StatusBarReader | undefined;
 
 export function activate(context: vscode.ExtensionContext) {
   console.log("EVA Reader 插件已激活");
 
-  bookshelfProvider = new BookshelfProvider(context.extensionUri);
+  BookConfigManager.initialize(context);
+
+  readerRegistry = new ReaderRegistry(context.extensionUri);
+  bookshelfProvider = new BookshelfProvider(context.extensionUri, readerRegistry);
   settingsProvider = new SettingsProvider(context.extensionUri);
+  statusBarReader = new StatusBarReader(readerRegistry);
 
   // 注册命令：打开书架
   const openBookshelfCommand = vscode.commands.registerCommand(
@@ -47,7 +57,7 @@ export function activate(context: vscode.ExtensionContext) {
             canSelectMany: false,
             filters: {
               // eslint-disable-next-line @typescript-eslint/naming-convention
-              "Text files": ["txt"],
+              "Books": [...textDocumentExtensions, "epub", "gz", "zip"],
             },
           });
 
@@ -57,9 +67,16 @@ export function activate(context: vscode.ExtensionContext) {
         }
       }
 
+      if (fileUri && isZipFile(fileUri.fsPath)) {
+        const entryPath = await pickArchiveBook(fileUri.fsPath);
+        if (!entryPath) {
+          return;
+        }
+        fileUri = vscode.Uri.file(entryPath);
+      }
+
       if (fileUri) {
-        readerProvider = new TxtReaderProvider(context.extensionUri, fileUri);
-        await readerProvider.show(context);
+        await readerRegistry!.open(fileUri, context);
       } else {
         vscode.window.showErrorMessage("请选择一个文档");
       }
@@ -70,6 +87,7 @@ export function activate(context: vscode.ExtensionContext) {
   const scrollDownCommand = vscode.commands.registerCommand(
     "evaReader.scrollDown",
     () => {
+      const readerProvider = readerRegistry!.getActive();
       if (readerProvider) {
         readerProvider.scrollDown();
       }
@@ -80,6 +98,7 @@ export function activate(context: vscode.ExtensionContext) {
   const scrollUpCommand = vscode.commands.registerCommand(
     "evaReader.scrollUp",
     () => {
+      const readerProvider = readerRegistry!.getActive();
       if (readerProvider) {
         readerProvider.scrollUp();
       }
@@ -90,6 +109,7 @@ export function activate(context: vscode.ExtensionContext) {
   const searchCommand = vscode.commands.registerCommand(
     "evaReader.search",
     async () => {
+      const readerProvider = readerRegistry!.getActive();
       if (readerProvider) {
         const searchTerm = await vscode.window.showInputBox({
           prompt: "请输入要搜索的文本",
@@ -102,10 +122,33 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  // 注册命令：跳转到下一个搜索匹配
+  const searchNextCommand = vscode.commands.registerCommand(
+    "evaReader.searchNext",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        readerProvider.searchNext();
+      }
+    }
+  );
+
+  // 注册命令：跳转到上一个搜索匹配
+  const searchPreviousCommand = vscode.commands.registerCommand(
+    "evaReader.searchPrevious",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        readerProvider.searchPrevious();
+      }
+    }
+  );
+
   // 注册命令：显示章节列表
   const showChaptersCommand = vscode.commands.registerCommand(
     "evaReader.showChapters",
     () => {
+      const readerProvider = readerRegistry!.getActive();
       if (readerProvider) {
         readerProvider.showChapters();
       }
@@ -116,42 +159,366 @@ export function activate(context: vscode.ExtensionContext) {
   const configureBookPatternCommand = vscode.commands.registerCommand(
     "evaReader.configureBookPattern",
     async () => {
+      const readerProvider = readerRegistry!.getActive();
       if (!readerProvider) {
         vscode.window.showWarningMessage("请先打开文档");
         return;
       }
 
-      const activeEditor = vscode.window.activeTextEditor;
-      if (!activeEditor) {
-        vscode.window.showWarningMessage("无法获取当前文档");
+      await readerProvider.configureChapterPattern();
+    }
+  );
+
+  // 注册命令：以指定编码重新打开当前文档
+  const reopenWithEncodingCommand = vscode.commands.registerCommand(
+    "evaReader.reopenWithEncoding",
+    async () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        vscode.window.showWarningMessage("请先打开文档");
         return;
       }
 
-      const filePath = activeEditor.document.uri.fsPath;
-      const config = await BookConfigManager.loadConfig(filePath);
-      const globalConfig = vscode.workspace.getConfiguration("evaReader");
-      const defaultPattern = globalConfig.get<string>(
-        "defaultChapterPattern",
-        ""
-      );
+      await readerProvider.reopenWithEncoding();
+    }
+  );
+
+  // 注册命令：切换当前行的书签
+  const toggleBookmarkCommand = vscode.commands.registerCommand(
+    "evaReader.toggleBookmark",
+    async () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        await readerProvider.toggleBookmark();
+      }
+    }
+  );
 
-      const currentPattern = config?.chapterPattern || defaultPattern;
+  // 注册命令：切换分页模式
+  const togglePageModeCommand = vscode.commands.registerCommand(
+    "evaReader.togglePageMode",
+    async () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        vscode.window.showWarningMessage("请先打开文档");
+        return;
+      }
 
-      const newPattern = await vscode.window.showInputBox({
-        prompt: "请输入该文档的章节分割规则（正则表达式）",
-        value: currentPattern,
-        placeHolder: "^第[0-9一二三四五六七八九十百千]+[章节]\\s+.+$",
-      });
+      await readerProvider.togglePageMode();
+    }
+  );
 
-      if (newPattern !== undefined) {
-        await BookConfigManager.updateChapterPattern(filePath, newPattern);
-        vscode.window.showInformationMessage("章节分割规则已更新");
+  // 注册命令：下一页
+  const nextPageCommand = vscode.commands.registerCommand(
+    "evaReader.nextPage",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        readerProvider.nextPage();
+      }
+    }
+  );
 
-        // 重新扫描章节
-        if (readerProvider) {
-          readerProvider.reloadChapters();
+  // 注册命令：上一页
+  const previousPageCommand = vscode.commands.registerCommand(
+    "evaReader.previousPage",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        readerProvider.previousPage();
+      }
+    }
+  );
+
+  // 注册命令：开始/暂停自动滚动
+  const toggleAutoScrollCommand = vscode.commands.registerCommand(
+    "evaReader.toggleAutoScroll",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        vscode.window.showWarningMessage("请先打开文档");
+        return;
+      }
+
+      readerProvider.toggleAutoScroll();
+    }
+  );
+
+  // 注册命令：加快自动滚动
+  const autoScrollFasterCommand = vscode.commands.registerCommand(
+    "evaReader.autoScrollFaster",
+    async () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        await readerProvider.changeAutoScrollSpeed(1);
+      }
+    }
+  );
+
+  // 注册命令：减慢自动滚动
+  const autoScrollSlowerCommand = vscode.commands.registerCommand(
+    "evaReader.autoScrollSlower",
+    async () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        await readerProvider.changeAutoScrollSpeed(-1);
+      }
+    }
+  );
+
+  // 注册命令：开始/暂停朗读
+  const toggleSpeechCommand = vscode.commands.registerCommand(
+    "evaReader.toggleSpeech",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        vscode.window.showWarningMessage("请先打开文档");
+        return;
+      }
+
+      readerProvider.toggleSpeech();
+    }
+  );
+
+  // 注册命令：朗读下一句
+  const speechNextSentenceCommand = vscode.commands.registerCommand(
+    "evaReader.speechNextSentence",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        readerProvider.skipSentence(1);
+      }
+    }
+  );
+
+  // 注册命令：朗读上一句
+  const speechPreviousSentenceCommand = vscode.commands.registerCommand(
+    "evaReader.speechPreviousSentence",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (readerProvider) {
+        readerProvider.skipSentence(-1);
+      }
+    }
+  );
+
+  // 注册命令：选择朗读语音
+  const selectSpeechVoiceCommand = vscode.commands.registerCommand(
+    "evaReader.selectSpeechVoice",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        vscode.window.showWarningMessage("请先打开文档");
+        return;
+      }
+
+      readerProvider.selectSpeechVoice();
+    }
+  );
+
+  // 注册命令：切换伪装显示
+  const toggleStealthModeCommand = vscode.commands.registerCommand(
+    "evaReader.toggleStealthMode",
+    () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        vscode.window.showWarningMessage("请先打开文档");
+        return;
+      }
+
+      readerProvider.toggleStealthMode();
+    }
+  );
+
+  // 注册命令：老板键（阅读器聚焦时立即切走，否则切回最近的阅读器）
+  const bossKeyCommand = vscode.commands.registerCommand(
+    "evaReader.bossKey",
+    async () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        return;
+      }
+
+      if (readerProvider.isActive) {
+        await readerProvider.hide();
+      } else {
+        readerProvider.reveal();
+      }
+    }
+  );
+
+  // 书库目录、伪装标题、朗读设置变化时更新书架和已打开的阅读器
+  const configurationListener = vscode.workspace.onDidChangeConfiguration(
+    (e) => {
+      if (
+        e.affectsConfiguration("evaReader.booksDirectory") ||
+        e.affectsConfiguration("evaReader.libraryRoots") ||
+        e.affectsConfiguration("evaReader.scanDepth") ||
+        e.affectsConfiguration("evaReader.scanIgnore")
+      ) {
+        bookshelfProvider!.refresh();
+      }
+      if (e.affectsConfiguration("evaReader.disguisedTitle")) {
+        readerRegistry!.getAll().forEach((reader) => reader.updateTitle());
+      }
+      if (
+        e.affectsConfiguration("evaReader.speechVoice") ||
+        e.affectsConfiguration("evaReader.speechRate") ||
+        e.affectsConfiguration("evaReader.speechPitch")
+      ) {
+        readerRegistry!
+          .getAll()
+          .forEach((reader) => reader.updateSpeechOptions());
+      }
+    }
+  );
+
+  // 工作区文件夹变化时书库目录中的相对路径可能指向别处
+  const workspaceFoldersListener =
+    vscode.workspace.onDidChangeWorkspaceFolders(() => {
+      bookshelfProvider!.refresh();
+    });
+
+  // 注册命令：在当前行插入章节
+  const insertChapterCommand = vscode.commands.registerCommand(
+    "evaReader.insertChapter",
+    async () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        vscode.window.showWarningMessage("请先打开文档");
+        return;
+      }
+
+      await readerProvider.insertChapter();
+    }
+  );
+
+  // 注册命令：显示书签列表
+  const showBookmarksCommand = vscode.commands.registerCommand(
+    "evaReader.showBookmarks",
+    async () => {
+      const readerProvider = readerRegistry!.getActive();
+      if (!readerProvider) {
+        vscode.window.showWarningMessage("请先打开文档");
+        return;
+      }
+
+      await readerProvider.showBookmarks();
+    }
+  );
+
+  // 注册命令：开始/退出状态栏阅读
+  const toggleStatusBarReaderCommand = vscode.commands.registerCommand(
+    "evaReader.toggleStatusBarReader",
+    async () => {
+      if (statusBarReader!.isActive) {
+        await statusBarReader!.stop();
+        return;
+      }
+
+      // 优先阅读当前阅读器中的文档，否则从书库目录中选择
+      let filePath = readerRegistry!.getActive()?.uri.fsPath;
+      if (!filePath) {
+        const { books } = await BookConfigManager.getAllBooksInRoots(
+          getLibraryRoots().map((root) => root.path)
+        );
+        if (books.length > 0) {
+          const picked = await vscode.window.showQuickPick(
+            books.map((book) => ({
+              label: book.fileName,
+              description: `${BookConfigManager.getProgressPercentage(book)}%`,
+              filePath: book.filePath,
+            })),
+            { placeHolder: "选择要在状态栏阅读的文档" }
+          );
+          filePath = picked?.filePath;
+        } else {
+          const files = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: {
+              // eslint-disable-next-line @typescript-eslint/naming-convention
+              "Books": [...textDocumentExtensions, "epub", "gz", "zip"],
+            },
+          });
+          filePath = files?.[0]?.fsPath;
         }
       }
+      if (filePath && isZipFile(filePath)) {
+        filePath = await pickArchiveBook(filePath);
+      }
+      if (!filePath) {
+        return;
+      }
+
+      try {
+        await statusBarReader!.start(filePath);
+      } catch (error) {
+        vscode.window.showErrorMessage(`无法读取文档: ${error}`);
+      }
+    }
+  );
+
+  // 注册命令：状态栏阅读下一段
+  const statusBarNextCommand = vscode.commands.registerCommand(
+    "evaReader.statusBarNext",
+    async () => {
+      await statusBarReader!.next();
+    }
+  );
+
+  // 注册命令：状态栏阅读上一段
+  const statusBarPreviousCommand = vscode.commands.registerCommand(
+    "evaReader.statusBarPrevious",
+    async () => {
+      await statusBarReader!.previous();
+    }
+  );
+
+  // 注册命令：将旧版同目录配置文件导入书库
+  const importLegacyConfigsCommand = vscode.commands.registerCommand(
+    "evaReader.importLegacyConfigs",
+    async () => {
+      let rootPaths = getLibraryRoots().map((root) => root.path);
+
+      if (rootPaths.length === 0) {
+        const result = await vscode.window.showOpenDialog({
+          canSelectFiles: false,
+          canSelectFolders: true,
+          canSelectMany: false,
+          title: "选择包含旧版配置文件的目录",
+        });
+        if (!result || result.length === 0) {
+          return;
+        }
+        rootPaths = [result[0].fsPath];
+      }
+
+      // 与书架相同，递归扫描所有书库目录（包括子文件夹和压缩包）
+      const choice = await vscode.window.showInformationMessage(
+        `将 ${rootPaths.join("、")} 中的旧版配置文件导入书库`,
+        { modal: true },
+        "导入并保留原文件",
+        "导入并删除原文件"
+      );
+      if (!choice) {
+        return;
+      }
+
+      try {
+        const { imported, undeleted } = await BookConfigManager.importLegacyConfigs(
+          rootPaths,
+          choice === "导入并删除原文件"
+        );
+        if (undeleted.length > 0) {
+          vscode.window.showWarningMessage(
+            `已导入 ${imported} 个文档配置，${undeleted.length} 个原文件无法删除: ${undeleted.join("、")}`
+          );
+        } else {
+          vscode.window.showInformationMessage(`已导入 ${imported} 个文档配置`);
+        }
+      } catch (error) {
+        vscode.window.showErrorMessage(`导入旧版配置失败: ${error}`);
+      }
     }
   );
 
@@ -162,8 +529,33 @@ export function activate(context: vscode.ExtensionContext) {
     scrollDownCommand,
     scrollUpCommand,
     searchCommand,
+    searchNextCommand,
+    searchPreviousCommand,
     showChaptersCommand,
-    configureBookPatternCommand
+    configureBookPatternCommand,
+    reopenWithEncodingCommand,
+    toggleBookmarkCommand,
+    showBookmarksCommand,
+    insertChapterCommand,
+    togglePageModeCommand,
+    toggleAutoScrollCommand,
+    autoScrollFasterCommand,
+    autoScrollSlowerCommand,
+    toggleSpeechCommand,
+    speechNextSentenceCommand,
+    speechPreviousSentenceCommand,
+    selectSpeechVoiceCommand,
+    toggleStealthModeCommand,
+    bossKeyCommand,
+    configurationListener,
+    workspaceFoldersListener,
+    nextPageCommand,
+    previousPageCommand,
+    toggleStatusBarReaderCommand,
+    statusBarNextCommand,
+    statusBarPreviousCommand,
+    statusBarReader,
+    importLegacyConfigsCommand
   );
 
     // 欢迎消息
@@ -172,8 +564,41 @@ export function activate(context: vscode.ExtensionContext) {
     // );
 }
 
+/**
+ * 打开 ZIP 压缩包时从包内的文档中选择一个（只有一个时直接返回）
+ */
+async function pickArchiveBook(archivePath: string): Promise<string | undefined> {
+  let books: string[];
+  try {
+    books = (await listZipBooks(archivePath)).map((book) => book.filePath);
+  } catch (error) {
+    vscode.window.showErrorMessage(`无法读取压缩包: ${error}`);
+    return undefined;
+  }
+
+  if (books.length === 0) {
+    vscode.window.showWarningMessage("压缩包中没有可阅读的文档");
+    return undefined;
+  }
+  if (books.length === 1) {
+    return books[0];
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    books.map((book) => ({
+      label: path.basename(book),
+      description: parseZipEntryPath(book)?.entryName,
+      filePath: book,
+    })),
+    { placeHolder: "选择压缩包中要阅读的文档" }
+  );
+  return picked?.filePath;
+}
+
 export function deactivate() {
-  readerProvider = undefined;
+  readerRegistry?.dispose();
+  readerRegistry = undefined;
   bookshelfProvider = undefined;
   settingsProvider = undefined;
+  statusBarReader = undefined;
 }
@@ -0,0 +1,201 @@
+import * as path from 'path';
+import { convertHtml, decodeEntities } from './epub';
+
+/**
+ * 文档格式：text 按原样逐行阅读，markdown / html 需要先转换为行
+ */
+export type DocumentFormat = 'text' | 'markdown' | 'html';
+
+export interface DocumentHeading {
+    title: string;
+    line: number; // 在转换后的行列表中的行号
+    level: number; // 标题级别（1 ~ 6）
+}
+
+export interface ConvertedDocument {
+    lines: string[];
+    headings: DocumentHeading[];
+}
+
+const formatsByExtension: { [extension: string]: DocumentFormat } = {
+    txt: 'text',
+    log: 'text',
+    md: 'markdown',
+    markdown: 'markdown',
+    html: 'html',
+    htm: 'html'
+};
+
+/**
+ * 书架和打开文档时支持的文本类扩展名（不含 EPUB）
+ */
+export const textDocumentExtensions = Object.keys(formatsByExtension);
+
+/**
+ * 按扩展名判断文档格式，不支持的扩展名返回 undefined
+ * gzip 压缩的文档按去掉 .gz 后的扩展名判断，没有扩展名时视为纯文本
+ */
+export function getDocumentFormat(filePath: string): DocumentFormat | undefined {
+    let extension = path.extname(filePath).toLowerCase();
+    if (extension === '.gz') {
+        extension = path.extname(path.basename(filePath, path.extname(filePath))).toLowerCase() || '.txt';
+    }
+    return formatsByExtension[extension.substring(1)];
+}
+
+/**
+ * 判断是否为支持的文本类文档（txt、log、Markdown、HTML 及其 gzip 压缩文件）
+ */
+export function isTextDocument(filePath: string): boolean {
+    return getDocumentFormat(filePath) !== undefined;
+}
+
+/**
+ * 把 Markdown / HTML 转换为阅读器使用的纯文本行，并提取标题作为章节
+ */
+export async function convertDocument(text: string, format: DocumentFormat): Promise<ConvertedDocument> {
+    if (format === 'markdown') {
+        return convertMarkdown(text);
+    }
+    if (format === 'html') {
+        const content = await convertHtml(text);
+        return {
+            lines: content.lines,
+            headings: content.headings.map(({ offset, level }) => ({ title: content.lines[offset], line: offset, level }))
+        };
+    }
+    const lines = text.split('\n');
+    return { lines, headings: [] };
+}
+
+/**
+ * 去掉行内的 Markdown 标记：链接、图片、强调、行内代码和内嵌的 HTML 标签
+ */
+function stripInlineMarkdown(text: string): string {
+    return decodeEntities(text
+        .replace(/`+([^`]+?)`+/g, '$1')
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, (_, alt: string) => alt ? `[图片：${alt}]` : '[图片]')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+        .replace(/<((?:https?|mailto):[^>\s]+)>/g, '$1')
+        .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+        .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '$1')
+        .replace(/(^|[^\w])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1$2')
+        .replace(/~~(.+?)~~/g, '$1')
+        .replace(/\\([\\`*_{}[\]()#+\-.!|>~<])/g, '$1'));
+}
+
+/**
+ * 连接同一段落中的两行：中文之间直接相连，其余用空格分隔
+ */
+function joinParagraph(previous: string, next: string): string {
+    const cjk = /[\u3000-\u9fff\uff00-\uffef]/;
+    const separator = cjk.test(previous[previous.length - 1] ?? '') && cjk.test(next[0] ?? '') ? '' : ' ';
+    return previous + separator + next;
+}
+
+/**
+ * 把 Markdown 转换为行：标题、列表项、引用各占一行，段落内折行的文字合并为一行，代码块按原样保留
+ */
+function convertMarkdown(text: string): ConvertedDocument {
+    const source = text.replace(/\r/g, '').split('\n');
+    const result: ConvertedDocument = { lines: [], headings: [] };
+    let paragraphOpen = false; // 上一行是否为可以继续合并的段落
+    let fence: string | undefined; // 当前代码块的围栏标记
+    let index = 0;
+
+    // 跳过开头的 YAML front matter
+    if (source[0]?.trim() === '---') {
+        const end = source.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+        if (end !== -1) {
+            index = end + 1;
+        }
+    }
+
+    const pushHeading = (title: string, level: number) => {
+        const line = stripInlineMarkdown(title).trim();
+        if (line) {
+            result.headings.push({ title: line, line: result.lines.length, level });
+        }
+        result.lines.push(line);
+        paragraphOpen = false;
+    };
+
+    for (; index < source.length; index++) {
+        const line = source[index];
+
+        if (fence) {
+            if (line.trim().startsWith(fence)) {
+                fence = undefined;
+            } else {
+                result.lines.push(line);
+            }
+            continue;
+        }
+        const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+        if (fenceMatch) {
+            fence = fenceMatch[1];
+            paragraphOpen = false;
+            continue;
+        }
+
+        if (!line.trim()) {
+            result.lines.push('');
+            paragraphOpen = false;
+            continue;
+        }
+
+        const atx = line.match(/^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/);
+        if (atx) {
+            pushHeading(atx[2] ?? '', atx[1].length);
+            continue;
+        }
+
+        // Setext 标题：段落下一行为 === 或 ---
+        const underline = line.match(/^ {0,3}(=+|-+)[ \t]*$/);
+        if (underline && paragraphOpen) {
+            const title = result.lines.pop()!;
+            result.headings.push({ title, line: result.lines.length, level: underline[1][0] === '=' ? 1 : 2 });
+            result.lines.push(title);
+            paragraphOpen = false;
+            continue;
+        }
+        if (/^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/.test(line)) {
+            result.lines.push(''); // 分隔线
+            paragraphOpen = false;
+            continue;
+        }
+        if (/^ {0,3}\[[^\]]+\]:\s*\S+/.test(line) || (line.includes('|') && /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/.test(line))) {
+            continue; // 链接引用定义、表格的对齐行
+        }
+
+        const quote = line.match(/^ {0,3}(?:>[ \t]?)+(.*)$/);
+        const listItem = line.match(/^([ \t]*)([-*+]|\d+[.)])[ \t]+(.*)$/);
+        if (quote) {
+            result.lines.push(stripInlineMarkdown(quote[1]));
+            paragraphOpen = false;
+        } else if (listItem) {
+            const indent = '  '.repeat(Math.floor(listItem[1].replace(/\t/g, '    ').length / 2));
+            const marker = /\d/.test(listItem[2]) ? listItem[2] : '•';
+            const content = listItem[3].replace(/^\[( |x|X)\][ \t]+/, (_, checked: string) => checked === ' ' ? '☐ ' : '☑ ');
+            result.lines.push(`${indent}${marker} ${stripInlineMarkdown(content)}`);
+            paragraphOpen = false;
+        } else if (line.includes('|') && /^\s*\|/.test(line)) {
+            // 表格行：单元格之间用两个空格分隔
+            result.lines.push(line.trim().replace(/^\||\|$/g, '').split('|').map(cell => stripInlineMarkdown(cell.trim())).join('  '));
+            paragraphOpen = false;
+        } else {
+            const content = stripInlineMarkdown(line.trim().replace(/\\$/, ''));
+            if (paragraphOpen) {
+                result.lines.push(joinParagraph(result.lines.pop()!, content));
+            } else {
+                result.lines.push(content);
+            }
+            // 行尾两个空格或反斜杠表示强制换行
+            paragraphOpen = !/( {2}|\\)$/.test(line);
+        }
+    }
+
+    return result;
+}
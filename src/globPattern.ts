@@ -0,0 +1,72 @@
+/**
+ * 把 glob 模式转换为正则表达式，支持 *、**、?、[...] 和 {a,b}
+ */
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braceDepth = 0;
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // **/ 匹配零到多层目录，单独的 ** 匹配任意字符
+                const slash = glob[i + 2] === '/';
+                source += slash ? '(?:.*/)?' : '.*';
+                i += slash ? 2 : 1;
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = glob.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += `[${glob.substring(i + 1, end).replace(/^!/, '^')}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            source += '(?:';
+            braceDepth++;
+        } else if (char === '}' && braceDepth > 0) {
+            source += ')';
+            braceDepth--;
+        } else if (char === ',' && braceDepth > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+
+    return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+}
+
+/**
+ * 一组 glob 模式，用于判断相对路径（以 / 分隔）是否匹配
+ * 不含 / 的模式（如 node_modules、*.bak）匹配任意层级的文件或文件夹名
+ */
+export class GlobMatcher {
+    private readonly pathPatterns: RegExp[] = [];
+    private readonly namePatterns: RegExp[] = [];
+
+    constructor(globs: string[]) {
+        for (const glob of globs) {
+            const trimmed = glob.trim().replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+            if (!trimmed) {
+                continue;
+            }
+            if (trimmed.includes('/')) {
+                this.pathPatterns.push(globToRegExp(trimmed.replace(/^\//, '')));
+            } else {
+                this.namePatterns.push(globToRegExp(trimmed));
+            }
+        }
+    }
+
+    public matches(relativePath: string): boolean {
+        const name = relativePath.substring(relativePath.lastIndexOf('/') + 1);
+        return this.namePatterns.some(pattern => pattern.test(name))
+            || this.pathPatterns.some(pattern => pattern.test(relativePath));
+    }
+}
@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * 书库目录的配置来源：booksDirectory 为旧版的单个文档目录，其余为 libraryRoots 在各级设置中的值
+ */
+export type LibraryRootSource = 'booksDirectory' | 'global' | 'workspace' | 'workspaceFolder';
+
+export interface LibraryRoot {
+    path: string; // 解析后的绝对路径
+    setting: string; // 设置中填写的原始值
+    source: LibraryRootSource;
+    folder?: vscode.WorkspaceFolder; // 来源为工作区文件夹设置时所属的文件夹
+    label: string; // 书架上显示的名称
+    sourceLabel: string; // 配置来源的说明
+}
+
+const workspaceFolderVariable = '${workspaceFolder}';
+
+/**
+ * 解析书库目录：支持 ~、${workspaceFolder}、${workspaceFolder:名称} 和相对路径
+ * 相对路径相对于 base 所指的工作区文件夹，没有可用的工作区文件夹时返回 undefined
+ */
+function resolveRootPath(setting: string, base: vscode.WorkspaceFolder | undefined): string | undefined {
+    let value = setting.trim();
+    if (!value) {
+        return undefined;
+    }
+    value = value.replace(/^~(?=$|[\\/])/, os.homedir());
+
+    const named = value.match(/^\$\{workspaceFolder:([^}]+)\}/);
+    if (named) {
+        const folder = vscode.workspace.workspaceFolders?.find(f => f.name === named[1]);
+        return folder ? path.join(folder.uri.fsPath, value.substring(named[0].length)) : undefined;
+    }
+    if (value.startsWith(workspaceFolderVariable)) {
+        return base ? path.join(base.uri.fsPath, value.substring(workspaceFolderVariable.length)) : undefined;
+    }
+    if (path.isAbsolute(value)) {
+        return path.normalize(value);
+    }
+    return base ? path.resolve(base.uri.fsPath, value) : undefined;
+}
+
+function getRootKey(rootPath: string): string {
+    const resolved = path.resolve(rootPath);
+    return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+/**
+ * 汇总所有书库目录（去重）：旧版 booksDirectory、用户设置、工作区设置和各工作区文件夹设置中的 libraryRoots
+ * 用户和工作区设置中的相对路径相对于第一个工作区文件夹，工作区文件夹设置中的相对于该文件夹
+ */
+export function getLibraryRoots(): LibraryRoot[] {
+    const folders = vscode.workspace.workspaceFolders || [];
+    const config = vscode.workspace.getConfiguration('evaReader');
+    const libraryRoots = config.inspect<string[]>('libraryRoots');
+    const roots: LibraryRoot[] = [];
+    const seen = new Set<string>();
+
+    const add = (setting: string, source: LibraryRootSource, sourceLabel: string, folder?: vscode.WorkspaceFolder) => {
+        const rootPath = resolveRootPath(setting, folder ?? folders[0]);
+        if (!rootPath || seen.has(getRootKey(rootPath))) {
+            return;
+        }
+        seen.add(getRootKey(rootPath));
+        roots.push({ path: rootPath, setting, source, folder, label: path.basename(rootPath) || rootPath, sourceLabel });
+    };
+
+    add(config.get<string>('booksDirectory', ''), 'booksDirectory', '文档目录');
+    (libraryRoots?.globalValue || []).forEach(setting => add(setting, 'global', '用户设置'));
+    (libraryRoots?.workspaceValue || []).forEach(setting => add(setting, 'workspace', '工作区设置'));
+    if (folders.length > 1) {
+        // 单文件夹工作区中文件夹设置与工作区设置相同，只在多根工作区中单独读取
+        for (const folder of folders) {
+            const folderRoots = vscode.workspace.getConfiguration('evaReader', folder.uri)
+                .inspect<string[]>('libraryRoots')?.workspaceFolderValue || [];
+            folderRoots.forEach(setting => add(setting, 'workspaceFolder', `工作区文件夹：${folder.name}`, folder));
+        }
+    }
+
+    // 同名的书库目录显示完整路径以便区分
+    const labels = roots.map(root => root.label);
+    roots.forEach(root => {
+        if (labels.indexOf(root.label) !== labels.lastIndexOf(root.label)) {
+            root.label = root.path;
+        }
+    });
+
+    return roots;
+}
+
+interface RootTarget extends vscode.QuickPickItem {
+    source: Exclude<LibraryRootSource, 'booksDirectory'>;
+    folder?: vscode.WorkspaceFolder;
+}
+
+function getConfigurationTarget(source: LibraryRootSource): vscode.ConfigurationTarget {
+    if (source === 'workspace') {
+        return vscode.ConfigurationTarget.Workspace;
+    }
+    return source === 'workspaceFolder' ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Global;
+}
+
+function getSettingValue(source: LibraryRootSource, folder?: vscode.WorkspaceFolder): string[] {
+    const inspected = vscode.workspace.getConfiguration('evaReader', folder?.uri).inspect<string[]>('libraryRoots');
+    if (source === 'workspace') {
+        return inspected?.workspaceValue || [];
+    }
+    return (source === 'workspaceFolder' ? inspected?.workspaceFolderValue : inspected?.globalValue) || [];
+}
+
+/**
+ * 添加书库目录：打开了工作区时先选择保存到哪一级设置，
+ * 位于工作区文件夹内的目录保存为 ${workspaceFolder} 开头的相对路径，工作区移动后仍然有效
+ * 返回是否已添加
+ */
+export async function addLibraryRoot(directory: string): Promise<boolean> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    let target: RootTarget = { label: '用户设置', source: 'global' };
+
+    if (folders.length > 0) {
+        const targets: RootTarget[] = [
+            { label: '用户设置', description: '在所有窗口中显示', source: 'global' },
+            { label: '工作区设置', description: '只在当前工作区中显示', source: 'workspace' },
+            ...(folders.length > 1
+                ? folders.map(folder => ({ label: `工作区文件夹：${folder.name}`, source: 'workspaceFolder' as const, folder }))
+                : [])
+        ];
+        const picked = await vscode.window.showQuickPick(targets, { placeHolder: '选择书库目录保存的位置' });
+        if (!picked) {
+            return false;
+        }
+        target = picked;
+    }
+
+    let setting = directory;
+    const base = target.folder ?? (target.source === 'workspace' ? folders[0] : undefined);
+    if (base) {
+        const relative = path.relative(base.uri.fsPath, directory);
+        if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+            setting = relative ? `${workspaceFolderVariable}/${relative.replace(/\\/g, '/')}` : workspaceFolderVariable;
+        }
+    }
+
+    const current = getSettingValue(target.source, target.folder);
+    if (!current.includes(setting)) {
+        await vscode.workspace.getConfiguration('evaReader', target.folder?.uri)
+            .update('libraryRoots', [...current, setting], getConfigurationTarget(target.source));
+    }
+    return true;
+}
+
+/**
+ * 从所在的设置中移除书库目录
+ */
+export async function removeLibraryRoot(root: LibraryRoot): Promise<void> {
+    const config = vscode.workspace.getConfiguration('evaReader', root.folder?.uri);
+
+    if (root.source === 'booksDirectory') {
+        const inspected = config.inspect<string>('booksDirectory');
+        if (inspected?.workspaceValue !== undefined) {
+            await config.update('booksDirectory', undefined, vscode.ConfigurationTarget.Workspace);
+        }
+        if (inspected?.globalValue !== undefined) {
+            await config.update('booksDirectory', undefined, vscode.ConfigurationTarget.Global);
+        }
+        return;
+    }
+
+    const remaining = getSettingValue(root.source, root.folder).filter(setting => setting !== root.setting);
+    await config.update('libraryRoots', remaining.length > 0 ? remaining : undefined, getConfigurationTarget(root.source));
+}
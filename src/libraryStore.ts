@@ -0,0 +1,288 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import type { BookConfig } from './bookConfig';
+import type { LineIndex } from './lineIndex';
+
+interface LibraryRecord {
+    fileHash: string; // 文件内容指纹，文件移动或改名后据此找回配置
+    hashMtime?: number; // 计算指纹时文件的修改时间
+    config: BookConfig;
+}
+
+interface LibraryData {
+    version: number;
+    books: { [key: string]: LibraryRecord };
+}
+
+/**
+ * 集中式书库存储：所有文档配置保存在扩展的 globalStorage 中，按文件路径索引，并记录内容指纹
+ * 行索引体积较大，单独保存在 indexes 目录下
+ */
+export class LibraryStore {
+    private static readonly version = 1;
+    private static readonly missingCheckInterval = 10 * 1000; // 重新检查记录对应文件是否存在的间隔（毫秒）
+    private static storageDir: string | undefined;
+    private static data: LibraryData | undefined;
+    private static dataMtime: number = 0;
+    private static writeChain: Promise<void> = Promise.resolve();
+    private static savedIndexes: Map<string, string> = new Map(); // 已写入磁盘的行索引签名
+    private static backedUpMtime: number | undefined; // 已备份的无法读取的书库文件的修改时间
+    private static writeBlocked: boolean = false; // 书库文件无法读取又未能备份时停止写入，避免覆盖
+    private static missingKeys: Set<string> | undefined; // 文件已不存在的记录，查找移动过的文档时只在其中匹配
+    private static missingKeysTime: number = 0;
+    private static unknownHashes: Map<string, { signature: string; fileHash: string }> = new Map(); // 书库外文件的指纹（按修改时间和大小缓存）
+
+    public static initialize(storageUri: vscode.Uri) {
+        this.storageDir = storageUri.fsPath;
+        this.data = undefined;
+    }
+
+    public static isReady(): boolean {
+        return this.storageDir !== undefined;
+    }
+
+    private static get libraryPath(): string {
+        return path.join(this.storageDir!, 'library.json');
+    }
+
+    private static indexPath(key: string): string {
+        const name = crypto.createHash('sha1').update(key).digest('hex');
+        return path.join(this.storageDir!, 'indexes', `${name}.json`);
+    }
+
+    private static getKey(filePath: string): string {
+        const resolved = path.resolve(filePath);
+        return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+    }
+
+    /**
+     * 计算文件指纹（文件大小 + 开头 64KB 内容）
+     */
+    public static async computeFileHash(filePath: string): Promise<string> {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const stats = await handle.stat();
+            const buffer = Buffer.alloc(Math.min(stats.size, 64 * 1024));
+            await handle.read(buffer, 0, buffer.length, 0);
+            return crypto.createHash('sha1').update(String(stats.size)).update(buffer).digest('hex');
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * 读取书库数据（其他窗口修改过时重新加载）
+     */
+    private static async load(): Promise<LibraryData> {
+        let stats: fs.Stats | undefined;
+        try {
+            stats = await fs.promises.stat(this.libraryPath);
+            if (!this.data || stats.mtimeMs !== this.dataMtime) {
+                const content = await fs.promises.readFile(this.libraryPath, 'utf-8');
+                const data = JSON.parse(content);
+                if (!data || typeof data.books !== 'object' || data.books === null) {
+                    throw new Error('书库文件格式不正确');
+                }
+                this.data = data;
+                this.dataMtime = stats.mtimeMs;
+                this.missingKeys = undefined;
+                this.writeBlocked = false;
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error('读取书库失败:', error);
+                if (stats && stats.mtimeMs !== this.backedUpMtime) {
+                    await this.backupUnreadable(stats.mtimeMs);
+                }
+            }
+            if (!this.data) {
+                this.data = { version: this.version, books: {} };
+            }
+        }
+        return this.data!;
+    }
+
+    /**
+     * 把无法读取的书库文件复制一份备份，之后的写入会覆盖原文件；备份失败时停止写入
+     */
+    private static async backupUnreadable(mtimeMs: number) {
+        const backupPath = `${this.libraryPath}.${Date.now()}.bak`;
+        try {
+            await fs.promises.copyFile(this.libraryPath, backupPath);
+            this.backedUpMtime = mtimeMs;
+            this.writeBlocked = false;
+            vscode.window.showWarningMessage(`书库文件无法读取，已备份为 ${backupPath}，阅读进度等配置将重新记录`);
+        } catch (error) {
+            console.error('备份书库失败:', error);
+            this.writeBlocked = true;
+            vscode.window.showErrorMessage(`书库文件无法读取且备份失败，已暂停保存阅读进度等配置：${this.libraryPath}`);
+        }
+    }
+
+    /**
+     * 写入书库数据（串行执行，先写临时文件再替换，避免写到一半的文件）
+     */
+    private static persist(): Promise<void> {
+        const task = this.writeChain.then(async () => {
+            if (this.writeBlocked) {
+                return; // 已提示过用户，不再重复报错
+            }
+            await fs.promises.mkdir(this.storageDir!, { recursive: true });
+            const tmpPath = `${this.libraryPath}.tmp`;
+            await fs.promises.writeFile(tmpPath, JSON.stringify(this.data), 'utf-8');
+            await fs.promises.rename(tmpPath, this.libraryPath);
+            this.dataMtime = (await fs.promises.stat(this.libraryPath)).mtimeMs;
+        });
+        this.writeChain = task.catch(() => undefined);
+        return task;
+    }
+
+    private static async loadLineIndex(key: string): Promise<LineIndex | undefined> {
+        try {
+            const content = await fs.promises.readFile(this.indexPath(key), 'utf-8');
+            const lineIndex: LineIndex = JSON.parse(content);
+            this.savedIndexes.set(key, this.getIndexSignature(lineIndex));
+            return lineIndex;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private static getIndexSignature(lineIndex: LineIndex): string {
+        return `${lineIndex.mtime}:${lineIndex.fileSize}:${lineIndex.encoding}:${lineIndex.step}`;
+    }
+
+    private static async saveLineIndex(key: string, lineIndex: LineIndex | undefined) {
+        const indexPath = this.indexPath(key);
+        if (lineIndex) {
+            // 行索引未变化时不重复写入
+            const signature = this.getIndexSignature(lineIndex);
+            if (this.savedIndexes.get(key) === signature) {
+                return;
+            }
+            this.savedIndexes.set(key, signature);
+            await fs.promises.mkdir(path.dirname(indexPath), { recursive: true });
+            await fs.promises.writeFile(indexPath, JSON.stringify(lineIndex), 'utf-8');
+        } else {
+            this.savedIndexes.delete(key);
+            if (fs.existsSync(indexPath)) {
+                await fs.promises.unlink(indexPath);
+            }
+        }
+    }
+
+    /**
+     * 文件已不存在的记录；书架刷新等连续查找时只检查一次，间隔一段时间后重新检查
+     */
+    private static async getMissingKeys(data: LibraryData): Promise<Set<string>> {
+        if (!this.missingKeys || Date.now() - this.missingKeysTime > this.missingCheckInterval) {
+            const keys = Object.keys(data.books);
+            const exists = await Promise.all(keys.map(
+                k => fs.promises.access(data.books[k].config.filePath).then(() => true, () => false)
+            ));
+            this.missingKeys = new Set(keys.filter((_, i) => !exists[i]));
+            this.missingKeysTime = Date.now();
+        }
+        return this.missingKeys;
+    }
+
+    /**
+     * 书库中没有记录的文件的指纹，文件未修改时不重复计算；文件不可读时返回 undefined
+     */
+    private static async getUnknownFileHash(filePath: string, key: string): Promise<string | undefined> {
+        try {
+            const stats = await fs.promises.stat(filePath);
+            const signature = `${stats.mtimeMs}:${stats.size}`;
+            const cached = this.unknownHashes.get(key);
+            if (cached?.signature === signature) {
+                return cached.fileHash;
+            }
+            const fileHash = await this.computeFileHash(filePath);
+            this.unknownHashes.set(key, { signature, fileHash });
+            return fileHash;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * 获取文档配置；路径未命中且书库中有文件已不存在的记录时，按内容指纹查找已移动的文档
+     */
+    public static async get(filePath: string): Promise<BookConfig | null> {
+        const data = await this.load();
+        const key = this.getKey(filePath);
+        let record = data.books[key];
+
+        const missingKeys = record ? undefined : await this.getMissingKeys(data);
+        if (missingKeys && missingKeys.size > 0) {
+            const fileHash = await this.getUnknownFileHash(filePath, key);
+            const movedKey = fileHash && [...missingKeys].find(
+                k => data.books[k]?.fileHash === fileHash && !fs.existsSync(data.books[k].config.filePath)
+            );
+
+            if (movedKey) {
+                record = data.books[movedKey];
+                delete data.books[movedKey];
+                missingKeys.delete(movedKey);
+                this.unknownHashes.delete(key);
+                record.config.filePath = filePath;
+                record.config.fileName = path.basename(filePath);
+                data.books[key] = record;
+                await this.persist();
+
+                const lineIndex = await this.loadLineIndex(movedKey);
+                await this.saveLineIndex(movedKey, undefined);
+                await this.saveLineIndex(key, lineIndex);
+            }
+        }
+
+        if (!record) {
+            return null;
+        }
+
+        const config: BookConfig = { ...record.config };
+        config.lineIndex = await this.loadLineIndex(key);
+        return config;
+    }
+
+    /**
+     * 保存文档配置
+     */
+    public static async put(config: BookConfig): Promise<void> {
+        const data = await this.load();
+        const key = this.getKey(config.filePath);
+        const { lineIndex, ...rest } = config;
+
+        // 文件被修改过才需要重新计算指纹
+        let fileHash = data.books[key]?.fileHash || '';
+        let hashMtime = data.books[key]?.hashMtime;
+        try {
+            const stats = await fs.promises.stat(config.filePath);
+            if (!fileHash || stats.mtimeMs !== hashMtime) {
+                fileHash = await this.computeFileHash(config.filePath);
+                hashMtime = stats.mtimeMs;
+            }
+        } catch {
+            // 文件不可读时保留原指纹
+        }
+
+        data.books[key] = { fileHash, hashMtime, config: rest };
+        this.missingKeys?.delete(key);
+        this.unknownHashes.delete(key);
+        await this.persist();
+
+        if (lineIndex) {
+            await this.saveLineIndex(key, lineIndex);
+        }
+    }
+
+    /**
+     * 书库中是否已有该文档
+     */
+    public static async has(filePath: string): Promise<boolean> {
+        const data = await this.load();
+        return data.books[this.getKey(filePath)] !== undefined;
+    }
+}
@@ -0,0 +1,133 @@
+import { createBookReadStream, readBookRange, statBook } from './bookFile';
+import { getBomLength } from './encoding';
+
+/**
+ * 行索引：记录每隔 step 行的起始字节偏移，用于按行范围直接读取文件片段
+ */
+export interface LineIndex {
+    fileSize: number; // 建立索引时的文件大小
+    mtime: number; // 建立索引时的修改时间（毫秒）
+    encoding: string; // 建立索引时使用的编码
+    step: number; // 索引间隔（行）
+    totalLines: number;
+    offsets: number[]; // offsets[k] 为第 k * step 行的起始字节
+}
+
+export class LineIndexManager {
+    private static readonly defaultStep = 100;
+
+    /**
+     * 扫描文件中的换行符，建立行索引
+     * UTF-16 下换行符为两字节码元，需按码元对齐判断，其余支持的编码中 0x0A 只会作为换行出现
+     * 压缩文档边解压边扫描，偏移均为解压后内容中的位置
+     */
+    public static async build(
+        filePath: string,
+        encoding: string,
+        step: number = this.defaultStep
+    ): Promise<LineIndex> {
+        const stats = await statBook(filePath);
+        const bomLength = await getBomLength(filePath, encoding);
+        const littleEndian = encoding === 'utf-16le';
+        const isUtf16 = littleEndian || encoding === 'utf-16be';
+        const stream = await createBookReadStream(filePath, bomLength);
+
+        return new Promise((resolve, reject) => {
+            const offsets: number[] = [bomLength];
+            let lineCount = 0;
+            let position = bomLength;
+            let pendingByte = -1; // UTF-16 下跨数据块的半个码元
+
+            const addLineBreak = (nextLineStart: number) => {
+                lineCount++;
+                if (lineCount % step === 0) {
+                    offsets.push(nextLineStart);
+                }
+            };
+
+            stream.on('data', (chunk: Buffer) => {
+                if (isUtf16) {
+                    let i = 0;
+                    if (pendingByte !== -1) {
+                        const low = littleEndian ? pendingByte : chunk[0];
+                        const high = littleEndian ? chunk[0] : pendingByte;
+                        if (low === 0x0a && high === 0) {
+                            addLineBreak(position + 1);
+                        }
+                        i = 1;
+                    }
+                    for (; i + 1 < chunk.length; i += 2) {
+                        const low = littleEndian ? chunk[i] : chunk[i + 1];
+                        const high = littleEndian ? chunk[i + 1] : chunk[i];
+                        if (low === 0x0a && high === 0) {
+                            addLineBreak(position + i + 2);
+                        }
+                    }
+                    pendingByte = i < chunk.length ? chunk[i] : -1;
+                } else {
+                    let index = chunk.indexOf(0x0a);
+                    while (index !== -1) {
+                        addLineBreak(position + index + 1);
+                        index = chunk.indexOf(0x0a, index + 1);
+                    }
+                }
+                position += chunk.length;
+            });
+
+            stream.on('end', () => {
+                resolve({
+                    fileSize: stats.size,
+                    mtime: stats.mtimeMs,
+                    encoding: encoding,
+                    step: step,
+                    // 与 split("\n") 的结果保持一致：换行符数 + 1
+                    totalLines: lineCount + 1,
+                    offsets: offsets
+                });
+            });
+
+            stream.on('error', (error) => {
+                reject(error);
+            });
+        });
+    }
+
+    /**
+     * 检查索引是否仍与文件一致（大小、修改时间或编码变化则失效）
+     */
+    public static async isValid(
+        index: LineIndex | undefined,
+        filePath: string,
+        encoding: string
+    ): Promise<boolean> {
+        if (!index || !index.offsets || index.offsets.length === 0 || index.encoding !== encoding) {
+            return false;
+        }
+
+        try {
+            const stats = await statBook(filePath);
+            return stats.size === index.fileSize && stats.mtimeMs === index.mtime;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * 读取指定行范围（包含 endLine）的原始字节，返回字节数据及其起始行号
+     */
+    public static async readLines(
+        filePath: string,
+        index: LineIndex,
+        startLine: number,
+        endLine: number
+    ): Promise<{ buffer: Buffer; firstLine: number }> {
+        const startBlock = Math.floor(startLine / index.step);
+        const endBlock = Math.floor(endLine / index.step) + 1;
+        const startByte = index.offsets[startBlock] ?? index.fileSize;
+        const endByte = endBlock < index.offsets.length ? index.offsets[endBlock] : index.fileSize;
+        const length = Math.max(0, endByte - startByte);
+
+        const buffer = await readBookRange(filePath, startByte, length);
+        return { buffer, firstLine: startBlock * index.step };
+    }
+}
@@ -1,18 +1,62 @@
 import * as vscode from "vscode";
-import * as fs from "fs";
 import * as path from "path";
-import { BookConfig, BookConfigManager } from "./bookConfig";
+import {
+  BookConfig,
+  BookConfigManager,
+  Bookmark,
+  ChapterOverrides,
+} from "./bookConfig";
+import { LineIndex, LineIndexManager } from "./lineIndex";
+import { createBookReadStream, readBookFile, statBook } from "./bookFile";
+import {
+  createSearchMatcher,
+  defaultSearchOptions,
+  MatchRange,
+  SearchMatcher,
+  SearchOptions,
+  SearchPatternError,
+} from "./searchMatcher";
+import {
+  createStreamDecoder,
+  decodeText,
+  detectFileEncoding,
+  getEncodingLabel,
+  supportedEncodings,
+} from "./encoding";
+import { findPresetByPattern } from "./chapterPatterns";
+import {
+  EpubBook,
+  epubPositionToLine,
+  isEpubFile,
+  lineToEpubPosition,
+  loadEpub,
+} from "./epub";
+import { ConvertedDocument, convertDocument, getDocumentFormat } from "./formatAdapter";
 
 interface Chapter {
   name: string;
   line: number;
+  level: number; // 0 为卷，1 为章
+  edited?: boolean; // 是否经过手动插入或重命名
 }
 
 interface SearchResult {
   line: number;
   content: string;
+  matches: MatchRange[]; // 匹配片段在 content 中的位置
 }
 
+interface ChapterPatternPreview {
+  chapters: Chapter[]; // 全部匹配到的章节（不含卷）
+  volumes: number; // 匹配到的卷数
+  averageGap: number; // 章节之间的平均间隔（行）
+  maxGap: number; // 最大间隔（行）
+  maxGapAfter: number; // 最大间隔出现在第几个章节之后（-1 表示在第一章之前）
+}
+
+// 伪装显示样式：关闭、代码注释、日志输出
+type StealthStyle = "off" | "comment" | "log";
+
 interface ChunkCache {
   startLine: number;
   endLine: number;
@@ -24,17 +68,54 @@ export class TxtReaderProvider {
   private content: string = "";
   private lines: string[] = [];
   private currentLine: number = 0;
-  private chapters: Chapter[] = [];
+  private currentOffset: number = 0; // 分页模式下页首在当前行中的字符偏移
+  private pageMode: boolean = false; // 是否为分页阅读模式
+  private static readonly pageSectionLines = 2000; // 超长章节分页时每段的最大行数
+  private stealthStyle: StealthStyle = "off"; // 当前的伪装显示样式
+  private autoScrolling: boolean = false; // 是否正在自动滚动
+  private autoScrollSpeed: number = 20; // 自动滚动速度（行/分钟）
+  private static readonly autoScrollSpeedRange = { min: 1, max: 600 };
+  private chapters: Chapter[] = []; // 应用手动修改后的章节目录
+  private scannedChapters: Chapter[] = []; // 按规则识别出的章节
   private fileUri: vscode.Uri;
   private extensionUri: vscode.Uri;
   private bookConfig: BookConfig | null = null;
   private saveProgressTimer: NodeJS.Timeout | undefined;
+  private bookmarks: Bookmark[] = [];
+  private searchOptions: SearchOptions = { ...defaultSearchOptions };
+
+  // 搜索结果（全部保存在扩展端，按页发送给 webview）
+  private static readonly searchPageSize = 100;
+  private searchTerm: string = "";
+  private searchMatcher: SearchMatcher | undefined;
+  private searchResults: SearchResult[] = [];
+  private searchTotalMatches: number = 0;
+  private searchPage: number = 0; // webview 当前显示的页
+  private currentMatch: { result: number; match: number } | undefined;
+
+  // 后台扫描（搜索、章节扫描）的取消令牌和请求编号，webview 据编号丢弃过期结果
+  private searchCancellation: vscode.CancellationTokenSource | undefined;
+  private chapterScanCancellation: vscode.CancellationTokenSource | undefined;
+  private searchRequestId: number = 0;
+  private chapterScanRequestId: number = 0;
+  private chapterScanComplete: boolean = false; // 章节是否已扫描完整本书（取消或出错时为 false）
 
   // 分块加载相关属性
   private fileSize: number = 0;
   private totalLines: number = 0;
   private useChunkMode: boolean = false;
   private chunkCache: Map<number, ChunkCache> = new Map(); // 缓存已加载的块
+  private lineIndex: LineIndex | undefined; // 行字节偏移索引
+  private encoding: string = "utf-8"; // 当前使用的文档编码
+  private detectedConfidence: number = 1; // 自动检测编码的置信度
+  private epub: EpubBook | undefined; // EPUB 文档的解析结果（lines 为其纯文本行）
+  private document: ConvertedDocument | undefined; // Markdown / HTML 转换后的全部行和标题
+
+  // 面板状态事件（供阅读器注册表跟踪当前聚焦的阅读器）
+  private readonly activeChangeEmitter = new vscode.EventEmitter<boolean>();
+  private readonly disposeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeActive = this.activeChangeEmitter.event;
+  public readonly onDidDispose = this.disposeEmitter.event;
 
   constructor(extensionUri: vscode.Uri, fileUri: vscode.Uri) {
     this.extensionUri = extensionUri;
@@ -42,19 +123,37 @@ export class TxtReaderProvider {
   }
 
   public async show(context: vscode.ExtensionContext) {
-    // 初始化文件信息（文件大小、总行数等）
-    await this.initializeFile();
-
-    // 加载文档配置
+    // 加载文档配置（行索引缓存也在其中，需先于文件初始化）
     this.bookConfig = await BookConfigManager.loadConfig(this.fileUri.fsPath);
     if (this.bookConfig) {
       this.currentLine = this.bookConfig.progress;
+      this.currentOffset = this.bookConfig.progressOffset || 0;
+    }
+    const config = vscode.workspace.getConfiguration("evaReader");
+    this.pageMode = config.get<boolean>("pageMode", false);
+    this.autoScrollSpeed =
+      this.bookConfig?.autoScrollSpeed ||
+      config.get<number>("autoScrollSpeed", 20);
+    this.stealthStyle = config.get<StealthStyle>("stealthMode", "off");
+
+    // 初始化文件信息（文件大小、总行数等）
+    await this.initializeFile();
+
+    // EPUB 按书脊位置恢复进度，书中其他章节变化时也能回到原处
+    const epubPosition = this.bookConfig?.epubPosition;
+    if (this.epub && epubPosition) {
+      this.currentLine =
+        epubPositionToLine(this.epub, epubPosition) ?? this.currentLine;
     }
 
+    // 加载书签，并根据文本锚点校正位置（文档可能已被修改）
+    this.bookmarks = this.bookConfig?.bookmarks || [];
+    await this.relocateBookmarks();
+
     // 创建并显示 webview
     this.panel = vscode.window.createWebviewPanel(
       "evaReader",
-      path.basename(this.fileUri.fsPath),
+      this.getPanelTitle(),
       vscode.ViewColumn.One,
       {
         enableScripts: true,
@@ -62,8 +161,19 @@ export class TxtReaderProvider {
       }
     );
 
-    // 设置 context
-    vscode.commands.executeCommand("setContext", "evaReaderActive", true);
+    // 面板获得/失去焦点时通知注册表，失去焦点时暂停自动滚动
+    this.panel.onDidChangeViewState((e) => {
+      this.activeChangeEmitter.fire(e.webviewPanel.active);
+      if (!e.webviewPanel.active) {
+        this.pauseAutoScroll();
+      }
+    });
+    const windowStateListener = vscode.window.onDidChangeWindowState((e) => {
+      if (!e.focused) {
+        this.pauseAutoScroll();
+      }
+    });
+    this.activeChangeEmitter.fire(this.panel.active);
 
     // 异步扫描章节（不阻塞 UI）
     this.scanChaptersAsync();
@@ -85,7 +195,19 @@ export class TxtReaderProvider {
             this.jumpToLine(message.line);
             break;
           case "search":
-            this.searchAsync(message.text);
+            this.searchAsync(message.text, message.options);
+            break;
+          case "requestSearchPage":
+            this.sendSearchPage(message.page);
+            break;
+          case "jumpToSearchResult":
+            this.goToSearchMatch(message.index, 0);
+            break;
+          case "searchNext":
+            this.searchNext();
+            break;
+          case "searchPrevious":
+            this.searchPrevious();
             break;
           case "jumpToChapter":
             this.jumpToLine(message.line);
@@ -94,7 +216,10 @@ export class TxtReaderProvider {
             this.sendChaptersToWebview();
             break;
           case "updateProgress":
-            this.updateProgress(message.line);
+            this.updateProgress(message.line, message.offset);
+            break;
+          case "requestPageSection":
+            this.sendPageSection(message.line, message.target, message.requestId);
             break;
           case "requestInitialContent":
             this.sendInitialContent();
@@ -102,6 +227,52 @@ export class TxtReaderProvider {
           case "requestChunk":
             this.sendChunk(message.startLine, message.endLine);
             break;
+          case "reopenWithEncoding":
+            this.reopenWithEncoding();
+            break;
+          case "addBookmark":
+            this.addBookmark(message.line);
+            break;
+          case "removeBookmark":
+            this.removeBookmark(message.id);
+            break;
+          case "renameBookmark":
+            this.renameBookmark(message.id);
+            break;
+          case "editBookmarkNote":
+            this.editBookmarkNote(message.id);
+            break;
+          case "requestBookmarks":
+            this.sendBookmarksToWebview();
+            break;
+          case "insertChapter":
+            this.insertChapter(message.line, message.level);
+            break;
+          case "renameChapter":
+            this.renameChapter(message.line);
+            break;
+          case "deleteChapter":
+            this.deleteChapter(message.line);
+            break;
+          case "mergeChapter":
+            this.mergeChapter(message.line);
+            break;
+          case "resetChapterEdits":
+            this.resetChapterEdits();
+            break;
+          case "speechVoices":
+            this.pickSpeechVoice(message.voices);
+            break;
+          case "speechFinished":
+            vscode.window.showInformationMessage("已朗读到文档末尾");
+            break;
+          case "speechError":
+            vscode.window.showErrorMessage(`朗读失败: ${message.error}`);
+            break;
+          case "autoScrollStopped":
+            // 滚动到文档末尾后 webview 自动停止
+            this.autoScrolling = false;
+            break;
         }
       },
       undefined,
@@ -110,32 +281,151 @@ export class TxtReaderProvider {
 
     // 监听 panel 关闭事件
     this.panel.onDidDispose(() => {
-      vscode.commands.executeCommand("setContext", "evaReaderActive", false);
       this.saveProgressNow();
       if (this.saveProgressTimer) {
         clearTimeout(this.saveProgressTimer);
       }
+      // 停止仍在进行的后台扫描
+      this.searchCancellation?.cancel();
+      this.chapterScanCancellation?.cancel();
+      windowStateListener.dispose();
       // 清理缓存
       this.chunkCache.clear();
       this.panel = undefined;
+      this.disposeEmitter.fire();
+      this.activeChangeEmitter.dispose();
+      this.disposeEmitter.dispose();
     });
 
     // 不在这里发送初始数据，等待 webview 请求（通过 requestInitialContent）
     // 这样可以确保 webview 已经完全加载并准备好接收消息
   }
 
+  public get uri(): vscode.Uri {
+    return this.fileUri;
+  }
+
+  /**
+   * 当前阅读位置（行及页首在行内的字符偏移）
+   */
+  public get position(): { line: number; offset: number } {
+    return { line: this.currentLine, offset: this.currentOffset };
+  }
+
+  /**
+   * 面板是否为当前聚焦的编辑器
+   */
+  public get isActive(): boolean {
+    return this.panel?.active ?? false;
+  }
+
+  /**
+   * 显示已打开的面板
+   */
+  public reveal() {
+    this.panel?.reveal();
+  }
+
+  /**
+   * 老板键：立即切换到同一编辑器组中上一个使用的编辑器，
+   * 组内没有其他编辑器时打开一个空白文件遮挡阅读器
+   */
+  public async hide() {
+    if (!this.panel) {
+      return;
+    }
+    if (vscode.window.tabGroups.activeTabGroup.tabs.length > 1) {
+      await vscode.commands.executeCommand(
+        "workbench.action.openPreviousRecentlyUsedEditorInGroup"
+      );
+    } else {
+      await vscode.commands.executeCommand(
+        "workbench.action.files.newUntitledFile"
+      );
+    }
+  }
+
+  /**
+   * 面板标题：设置了伪装标题时显示为源码文件名，否则为文档名
+   */
+  private getPanelTitle(): string {
+    const disguisedTitle = vscode.workspace
+      .getConfiguration("evaReader")
+      .get<string>("disguisedTitle", "")
+      .trim();
+    return disguisedTitle || path.basename(this.fileUri.fsPath);
+  }
+
+  /**
+   * 伪装标题设置变化后更新面板标题
+   */
+  public updateTitle() {
+    if (this.panel) {
+      this.panel.title = this.getPanelTitle();
+    }
+  }
+
+  /**
+   * 开启 / 关闭伪装显示，开启时使用 evaReader.stealthMode 设置的样式（未设置时为代码注释）
+   */
+  public toggleStealthMode() {
+    const configured = vscode.workspace
+      .getConfiguration("evaReader")
+      .get<StealthStyle>("stealthMode", "off");
+    if (this.stealthStyle !== "off") {
+      this.stealthStyle = "off";
+    } else {
+      this.stealthStyle = configured === "off" ? "comment" : configured;
+    }
+    this.panel?.webview.postMessage({
+      command: "setStealthMode",
+      style: this.stealthStyle,
+    });
+  }
+
   /**
    * 初始化文件信息（文件大小、总行数等）
    */
   private async initializeFile() {
     try {
-      const stats = await fs.promises.stat(this.fileUri.fsPath);
+      const stats = await statBook(this.fileUri.fsPath);
       this.fileSize = stats.size;
 
+      if (isEpubFile(this.fileUri.fsPath)) {
+        // EPUB 整本解析为行，不需要检测编码和分块加载
+        this.epub = await loadEpub(this.fileUri.fsPath);
+        this.useChunkMode = false;
+        this.lines = this.epub.lines;
+        this.totalLines = this.lines.length;
+        return;
+      }
+
+      // 确定文档编码：优先使用手动指定的编码，否则自动检测
+      if (this.bookConfig?.encoding) {
+        this.encoding = this.bookConfig.encoding;
+        this.detectedConfidence = 1;
+      } else {
+        const detected = await detectFileEncoding(this.fileUri.fsPath);
+        this.encoding = detected.encoding;
+        this.detectedConfidence = detected.confidence;
+      }
+
       const config = vscode.workspace.getConfiguration("evaReader");
       const largeFileThreshold =
         config.get<number>("largeFileThreshold", 5) * 1024 * 1024; // 转换为字节
 
+      const format = getDocumentFormat(this.fileUri.fsPath);
+      if (format === "markdown" || format === "html") {
+        // Markdown / HTML 需要整体转换为行，转换结果保存在内存中；
+        // 大文件仍走分块加载和虚拟滚动，只是块从转换结果中截取
+        const buffer = await readBookFile(this.fileUri.fsPath);
+        this.document = await convertDocument(decodeText(buffer, this.encoding), format);
+        this.totalLines = this.document.lines.length;
+        this.useChunkMode = this.fileSize > largeFileThreshold;
+        this.lines = this.useChunkMode ? [] : this.document.lines;
+        return;
+      }
+
       // 如果文件较大，使用分块模式
       if (this.fileSize > largeFileThreshold) {
         this.useChunkMode = true;
@@ -156,8 +446,8 @@ export class TxtReaderProvider {
    */
   private async loadFile() {
     try {
-      const buffer = await vscode.workspace.fs.readFile(this.fileUri);
-      this.content = this.decodeBuffer(buffer);
+      const buffer = await readBookFile(this.fileUri.fsPath);
+      this.content = decodeText(buffer, this.encoding);
       this.lines = this.content.split("\n");
       this.totalLines = this.lines.length;
     } catch (error) {
@@ -166,35 +456,20 @@ export class TxtReaderProvider {
   }
 
   /**
-   * 快速统计文件总行数（通过读取换行符）
+   * 统计文件总行数并建立行索引（优先使用已缓存且未失效的索引）
    */
   private async countTotalLines(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const stream = fs.createReadStream(this.fileUri.fsPath, {
-        encoding: "utf8",
-      });
-      let lineCount = 0;
-      let buffer = "";
-
-      stream.on("data", (chunk: string) => {
-        buffer += chunk;
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || ""; // 保留最后一个不完整的行
-        lineCount += lines.length;
-      });
+    const filePath = this.fileUri.fsPath;
+    const cached = this.bookConfig?.lineIndex;
 
-      stream.on("end", () => {
-        if (buffer.length > 0) {
-          lineCount++; // 最后一行
-        }
-        this.totalLines = lineCount;
-        resolve();
-      });
+    if (await LineIndexManager.isValid(cached, filePath, this.encoding)) {
+      this.lineIndex = cached;
+    } else {
+      this.lineIndex = await LineIndexManager.build(filePath, this.encoding);
+      await BookConfigManager.updateLineIndex(filePath, this.lineIndex);
+    }
 
-      stream.on("error", (error) => {
-        reject(error);
-      });
-    });
+    this.totalLines = this.lineIndex!.totalLines;
   }
 
   /**
@@ -215,6 +490,10 @@ export class TxtReaderProvider {
       endLine = this.totalLines - 1;
     }
 
+    if (this.document) {
+      return this.document.lines.slice(startLine, endLine + 1);
+    }
+
     console.log("getChunk:", {
       startLine,
       endLine,
@@ -233,32 +512,33 @@ export class TxtReaderProvider {
       return result;
     }
 
-    // 需要从文件读取
-    // 先读取整个文件到缓冲区（这样可以正确处理编码）
+    // 需要从文件读取：通过行索引只读取所需范围的字节
     try {
-      const buffer = await vscode.workspace.fs.readFile(this.fileUri);
-      const content = this.decodeBuffer(buffer);
-      const allLines = content.split("\n");
-
-      // 确保总行数正确
-      if (this.totalLines === 0 || this.totalLines !== allLines.length) {
-        this.totalLines = allLines.length;
+      if (!this.lineIndex) {
+        await this.countTotalLines();
       }
 
+      const { buffer, firstLine } = await LineIndexManager.readLines(
+        this.fileUri.fsPath,
+        this.lineIndex!,
+        startLine,
+        endLine
+      );
+      const blockLines = decodeText(buffer, this.encoding).split("\n");
+
       // 提取需要的行范围（注意：slice 的 end 是不包含的，所以需要 +1）
-      const actualEndLine = Math.min(endLine + 1, allLines.length);
-      const resultLines = allLines.slice(startLine, actualEndLine);
+      const startIdx = startLine - firstLine;
+      const endIdx = Math.min(endLine - firstLine + 1, blockLines.length);
+      const resultLines = blockLines.slice(startIdx, endIdx);
 
       console.log("getChunk from file:", {
-        allLines: allLines.length,
+        bytes: buffer.length,
         resultLines: resultLines.length,
         startLine,
-        actualEndLine,
+        endLine,
       });
 
       // 缓存这个块（缓存大小限制）
-      const config = vscode.workspace.getConfiguration("evaReader");
-      const chunkSize = config.get<number>("chunkSize", 200);
       if (this.chunkCache.size < 10 && resultLines.length > 0) {
         this.chunkCache.set(cacheKey, {
           startLine: startLine,
@@ -309,154 +589,628 @@ export class TxtReaderProvider {
     }
   }
 
-  private decodeBuffer(buffer: Uint8Array): string {
-    // 尝试 UTF-8
-    try {
-      return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
-    } catch {
-      // 如果 UTF-8 失败，尝试 GBK
-      try {
-        return new TextDecoder("gbk").decode(buffer);
-      } catch {
-        // 如果都失败，使用默认解码
-        return new TextDecoder().decode(buffer);
+  /**
+   * 开始新的后台任务：取消同类的上一个任务，返回新的取消令牌
+   */
+  private restartCancellation(
+    previous: vscode.CancellationTokenSource | undefined
+  ): vscode.CancellationTokenSource {
+    if (previous) {
+      previous.cancel();
+      previous.dispose();
+    }
+    return new vscode.CancellationTokenSource();
+  }
+
+  /**
+   * 在通知栏显示可取消的进度，task 通过 report 回调汇报已处理的行数
+   */
+  private runWithProgress(
+    title: string,
+    cancellation: vscode.CancellationTokenSource,
+    task: (report: (processedLines: number) => void) => Promise<void>
+  ): Thenable<void> {
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: title,
+        cancellable: true,
+      },
+      async (progress, progressToken) => {
+        progressToken.onCancellationRequested(() => cancellation.cancel());
+
+        let reportedPercent = 0;
+        await task((processedLines) => {
+          const percent = this.totalLines > 0
+            ? Math.floor((processedLines / this.totalLines) * 100)
+            : 0;
+          if (percent > reportedPercent) {
+            progress.report({
+              increment: percent - reportedPercent,
+              message: `${percent}%`,
+            });
+            reportedPercent = percent;
+          }
+        });
+      }
+    );
+  }
+
+  /**
+   * 按行流式读取整个文件（压缩文档边解压边读取），取消后停止读取
+   */
+  private async streamLines(
+    token: vscode.CancellationToken,
+    onLine: (line: string, lineNumber: number) => void,
+    onProgress: (processedLines: number) => void
+  ): Promise<void> {
+    if (this.document) {
+      // 转换后的文档已在内存中，直接逐行遍历
+      const lines = this.document.lines;
+      for (let i = 0; i < lines.length && !token.isCancellationRequested; i++) {
+        onLine(lines[i], i);
       }
+      onProgress(lines.length);
+      return;
     }
+
+    const stream = await createBookReadStream(this.fileUri.fsPath);
+    return new Promise((resolve, reject) => {
+      const decoder = createStreamDecoder(this.encoding);
+      let buffer = "";
+      let lineNumber = 0;
+
+      const cancelListener = token.onCancellationRequested(() => {
+        stream.destroy();
+        resolve();
+      });
+
+      stream.on("data", (chunk: Buffer) => {
+        if (token.isCancellationRequested) {
+          return;
+        }
+
+        buffer += decoder.decode(chunk, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          onLine(line, lineNumber);
+          lineNumber++;
+        }
+        onProgress(lineNumber);
+      });
+
+      stream.on("end", () => {
+        cancelListener.dispose();
+        if (!token.isCancellationRequested) {
+          // 处理最后一行
+          onLine(buffer + decoder.decode(), lineNumber);
+        }
+        resolve();
+      });
+
+      stream.on("error", (error) => {
+        cancelListener.dispose();
+        reject(error);
+      });
+    });
   }
 
   /**
    * 异步扫描章节（不阻塞 UI）
    */
   private async scanChaptersAsync() {
+    this.chapterScanCancellation = this.restartCancellation(
+      this.chapterScanCancellation
+    );
+    const cancellation = this.chapterScanCancellation;
+    const requestId = ++this.chapterScanRequestId;
+
     this.chapters = [];
-    const config = vscode.workspace.getConfiguration("evaReader");
+    this.chapterScanComplete = false;
 
-    // 优先使用文档特定的规则，否则使用全局默认规则
-    let patternStr = this.bookConfig?.chapterPattern;
-    if (!patternStr) {
-      patternStr = config.get<string>(
-        "defaultChapterPattern",
-        "^第[0-9一二三四五六七八九十百千]+[章节]\\s+.+$"
-      );
+    if (this.epub) {
+      // EPUB 使用书中的目录：有下级条目的顶层条目作为卷
+      this.chapters = this.epub.toc.map((entry) => ({
+        name: entry.title,
+        line: entry.line,
+        level: entry.depth === 0 && entry.hasChildren ? 0 : 1,
+      }));
+      this.finishChapterScan();
+      this.sendChaptersToWebview();
+      return;
     }
 
+    if (this.document?.headings.length) {
+      this.chapters = this.getHeadingChapters(this.document);
+      this.finishChapterScan();
+      this.sendChaptersToWebview();
+      return;
+    }
+
+    // 先校验规则，规则错误与读取文件出错分开提示
+    let matchChapter: (line: string, lineNumber: number) => Chapter | undefined;
     try {
-      const pattern = new RegExp(patternStr);
+      const { chapterPattern, volumePattern } = this.getChapterPatterns();
+      matchChapter = this.createChapterMatcher(
+        new RegExp(chapterPattern),
+        volumePattern ? new RegExp(volumePattern) : undefined
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`章节分割规则错误: ${error}`);
+      return;
+    }
 
+    try {
       // 如果使用分块模式，需要逐块扫描
       if (this.useChunkMode) {
-        await this.scanChaptersInChunks(pattern);
+        await this.runWithProgress("正在扫描章节", cancellation, (report) =>
+          this.scanChaptersInChunks(matchChapter, cancellation.token, requestId, report)
+        );
       } else {
         // 小文件直接扫描
         for (let i = 0; i < this.lines.length; i++) {
-          const line = this.lines[i].trim();
-          if (pattern.test(line)) {
-            this.chapters.push({
-              name: line,
-              line: i,
-            });
+          const chapter = matchChapter(this.lines[i], i);
+          if (chapter) {
+            this.chapters.push(chapter);
           }
         }
+        this.finishChapterScan();
         this.sendChaptersToWebview();
       }
     } catch (error) {
-      vscode.window.showErrorMessage(`章节分割规则错误: ${error}`);
+      vscode.window.showErrorMessage(`扫描章节失败: ${error}`);
+    }
+  }
+
+  /**
+   * Markdown / HTML 的标题转换为章节：存在多个标题级别时，最高一级作为卷，次一级作为章，更低的级别不列入目录
+   */
+  private getHeadingChapters(document: ConvertedDocument): Chapter[] {
+    const levels = [...new Set(document.headings.map((heading) => heading.level))].sort(
+      (a, b) => a - b
+    );
+    const volumeLevel = levels.length > 1 ? levels[0] : undefined;
+    const chapterLevel = levels.length > 1 ? levels[1] : levels[0];
+
+    return document.headings
+      .filter((heading) => heading.level === volumeLevel || heading.level === chapterLevel)
+      .map((heading) => ({
+        name: heading.title,
+        line: heading.line,
+        level: heading.level === volumeLevel ? 0 : 1,
+      }));
+  }
+
+  /**
+   * 记录按规则识别出的章节，并在其上应用手动修改；complete 表示是否扫描了整本书
+   */
+  private finishChapterScan(complete: boolean = true) {
+    this.chapterScanComplete = complete;
+    this.scannedChapters = this.chapters;
+    this.chapters = this.applyChapterOverrides(this.scannedChapters);
+  }
+
+  /**
+   * 在识别结果上应用手动修改：删除、重命名，再插入手动添加的章节（同一行的识别结果以手动添加的为准）
+   */
+  private applyChapterOverrides(scanned: Chapter[]): Chapter[] {
+    const overrides = this.bookConfig?.chapterOverrides;
+    if (!overrides) {
+      return scanned;
+    }
+
+    const removed = new Set(overrides.removed);
+    const added = new Map(overrides.added.map((chapter) => [chapter.line, chapter]));
+    const chapters: Chapter[] = scanned
+      .filter((chapter) => !removed.has(chapter.line) && !added.has(chapter.line))
+      .map((chapter) => {
+        const name = overrides.renamed[chapter.line];
+        return name ? { ...chapter, name: name, edited: true } : chapter;
+      });
+    for (const chapter of added.values()) {
+      chapters.push({ ...chapter, edited: true });
     }
+    return chapters.sort((a, b) => a.line - b.line);
+  }
+
+  /**
+   * 获取当前文档的章节规则和卷规则：优先使用文档特定的规则，否则使用全局默认规则
+   */
+  private getChapterPatterns(): { chapterPattern: string; volumePattern: string } {
+    const config = vscode.workspace.getConfiguration("evaReader");
+    return {
+      chapterPattern:
+        this.bookConfig?.chapterPattern ||
+        config.get<string>(
+          "defaultChapterPattern",
+          "^第[0-9一二三四五六七八九十百千]+[章节]\\s+.+$"
+        ),
+      volumePattern:
+        this.bookConfig?.volumePattern || config.get<string>("defaultVolumePattern", ""),
+    };
+  }
+
+  /**
+   * 创建标题匹配函数：先匹配卷标题，再匹配章节标题
+   */
+  private createChapterMatcher(
+    chapterPattern: RegExp,
+    volumePattern?: RegExp
+  ): (line: string, lineNumber: number) => Chapter | undefined {
+    return (line, lineNumber) => {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        return undefined;
+      }
+      if (volumePattern && volumePattern.test(trimmed)) {
+        return { name: trimmed, line: lineNumber, level: 0 };
+      }
+      if (chapterPattern.test(trimmed)) {
+        return { name: trimmed, line: lineNumber, level: 1 };
+      }
+      return undefined;
+    };
   }
 
   /**
    * 分块扫描章节
    */
-  private async scanChaptersInChunks(pattern: RegExp) {
-    const chunkSize = 1000; // 每次处理 1000 行
-    let processedLines = 0;
+  private async scanChaptersInChunks(
+    matchChapter: (line: string, lineNumber: number) => Chapter | undefined,
+    token: vscode.CancellationToken,
+    requestId: number,
+    report: (processedLines: number) => void
+  ) {
+    let lastPostedLines = 0;
 
     // 通知 webview 开始扫描
     if (this.panel) {
       this.panel.webview.postMessage({
         command: "chapterScanProgress",
+        requestId: requestId,
         progress: 0,
         total: this.totalLines,
       });
     }
 
-    // 读取文件并逐块处理
-    return new Promise<void>((resolve, reject) => {
-      const stream = fs.createReadStream(this.fileUri.fsPath, {
-        encoding: "utf8",
-      });
-      let buffer = "";
-      let lineNumber = 0;
-
-      stream.on("data", (chunk: string) => {
-        buffer += chunk;
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (pattern.test(trimmed)) {
-            this.chapters.push({
-              name: trimmed,
-              line: lineNumber,
-            });
-          }
-          lineNumber++;
-          processedLines++;
-
-          // 每处理一定数量后，让出控制权
-          if (processedLines % chunkSize === 0) {
-            setImmediate(() => {
-              if (this.panel) {
-                this.panel.webview.postMessage({
-                  command: "chapterScanProgress",
-                  progress: processedLines,
-                  total: this.totalLines,
-                });
-              }
-            });
-          }
-        }
-      });
-
-      stream.on("end", () => {
-        // 处理最后一行
-        if (buffer.trim()) {
-          const trimmed = buffer.trim();
-          if (pattern.test(trimmed)) {
-            this.chapters.push({
-              name: trimmed,
-              line: lineNumber,
-            });
-          }
+    await this.streamLines(
+      token,
+      (line, lineNumber) => {
+        const chapter = matchChapter(line, lineNumber);
+        if (chapter) {
+          this.chapters.push(chapter);
         }
-
-        // 发送完成消息
-        if (this.panel) {
+      },
+      (processedLines) => {
+        report(processedLines);
+        // 每处理一定数量后更新 webview 中的进度
+        if (processedLines - lastPostedLines >= 1000 && this.panel) {
+          lastPostedLines = processedLines;
           this.panel.webview.postMessage({
-            command: "chapterScanComplete",
-            chapters: this.chapters,
+            command: "chapterScanProgress",
+            requestId: requestId,
+            progress: processedLines,
+            total: this.totalLines,
           });
         }
-        resolve();
-      });
+      }
+    );
 
-      stream.on("error", (error) => {
-        reject(error);
-      });
-    });
-  }
+    if (token.isCancellationRequested) {
+      // 被新的扫描取消时由新扫描负责更新；被用户取消时显示已扫描到的部分
+      if (requestId === this.chapterScanRequestId) {
+        this.finishChapterScan(false);
+        this.sendChaptersToWebview();
+      }
+      return;
+    }
 
-  private scanChapters() {
-    // 保持向后兼容，但实际使用异步版本
-    this.scanChaptersAsync();
+    this.finishChapterScan();
+    // 发送完成消息
+    if (this.panel) {
+      this.panel.webview.postMessage({
+        command: "chapterScanComplete",
+        requestId: requestId,
+        chapters: this.chapters,
+      });
+    }
   }
 
-  public reloadChapters() {
-    this.scanChapters();
+  public async reloadChapters() {
+    // 章节规则可能已被修改，重新读取文档配置
+    this.bookConfig = await BookConfigManager.loadConfig(this.fileUri.fsPath);
+    await this.scanChaptersAsync();
     this.sendChaptersToWebview();
+    const volumes = this.chapters.filter((chapter) => chapter.level === 0).length;
     vscode.window.showInformationMessage(
-      `已识别 ${this.chapters.length} 个章节`
+      volumes > 0
+        ? `已识别 ${volumes} 卷、${this.chapters.length - volumes} 个章节`
+        : `已识别 ${this.chapters.length} 个章节`
+    );
+  }
+
+  /**
+   * 用指定规则扫描整本书，统计匹配数量及章节间隔，用于规则预览
+   */
+  private async previewChapterPattern(
+    pattern: RegExp,
+    volumePattern: RegExp | undefined,
+    token: vscode.CancellationToken
+  ): Promise<ChapterPatternPreview> {
+    const matchChapter = this.createChapterMatcher(pattern, volumePattern);
+    const chapters: Chapter[] = [];
+    let volumes = 0;
+    const collect = (line: string, lineNumber: number) => {
+      const chapter = matchChapter(line, lineNumber);
+      if (chapter?.level === 0) {
+        volumes++;
+      } else if (chapter) {
+        chapters.push(chapter);
+      }
+    };
+
+    if (this.useChunkMode) {
+      await this.streamLines(token, collect, () => undefined);
+    } else {
+      this.lines.forEach(collect);
+    }
+
+    // 第一章之前的内容也计入间隔，便于发现开头漏掉的章节
+    let maxGap = chapters.length > 0 ? chapters[0].line : this.totalLines;
+    let maxGapAfter = -1;
+    for (let i = 0; i < chapters.length; i++) {
+      const next = i + 1 < chapters.length ? chapters[i + 1].line : this.totalLines;
+      const gap = next - chapters[i].line;
+      if (gap > maxGap) {
+        maxGap = gap;
+        maxGapAfter = i;
+      }
+    }
+
+    return {
+      chapters: chapters,
+      volumes: volumes,
+      averageGap: chapters.length > 0 ? Math.round(this.totalLines / chapters.length) : 0,
+      maxGap: maxGap,
+      maxGapAfter: maxGapAfter,
+    };
+  }
+
+  /**
+   * 交互式配置当前文档的章节分割规则：输入时实时预览匹配结果，确认后保存
+   * 通过标题栏按钮可切换为编辑卷标题规则
+   */
+  public async configureChapterPattern() {
+    if (this.epub) {
+      vscode.window.showInformationMessage(
+        "EPUB 文档使用书中的目录，可在章节列表中手动修改"
+      );
+      return;
+    }
+    if (this.document?.headings.length) {
+      vscode.window.showInformationMessage(
+        "该文档按标题生成章节，可在章节列表中手动修改"
+      );
+      return;
+    }
+
+    const previewLimit = 50;
+    const globalConfig = vscode.workspace.getConfiguration("evaReader");
+    const defaultPattern = globalConfig.get<string>(
+      "defaultChapterPattern",
+      "^第[0-9一二三四五六七八九十百千]+[章节]\\s+.+$"
+    );
+    const defaultVolumePattern = globalConfig.get<string>("defaultVolumePattern", "");
+    this.bookConfig = await BookConfigManager.loadConfig(this.fileUri.fsPath);
+
+    const patterns = {
+      chapter: this.bookConfig?.chapterPattern || defaultPattern,
+      volume: this.bookConfig?.volumePattern || defaultVolumePattern,
+    };
+    let editing: "chapter" | "volume" = "chapter";
+
+    const quickPick = vscode.window.createQuickPick<
+      vscode.QuickPickItem & { line?: number }
+    >();
+    const toggleButton: vscode.QuickInputButton = {
+      iconPath: new vscode.ThemeIcon("list-tree"),
+      tooltip: "切换编辑章节规则 / 卷规则",
+    };
+    const updateTitle = () => {
+      const target = editing === "chapter" ? "章节分割规则" : "卷标题规则";
+      quickPick.title = `${target} - ${path.basename(this.fileUri.fsPath)}`;
+      quickPick.placeholder =
+        editing === "chapter"
+          ? "输入正则表达式，留空则使用默认规则；按 Enter 保存"
+          : "输入卷标题的正则表达式，留空则使用默认规则（默认为空时不分卷）；按 Enter 保存";
+    };
+    updateTitle();
+    quickPick.buttons = [toggleButton];
+    quickPick.value = patterns.chapter;
+    quickPick.matchOnDescription = false;
+
+    let previewCancellation: vscode.CancellationTokenSource | undefined;
+    let debounceTimer: NodeJS.Timeout | undefined;
+    let patternValid = true;
+
+    const updatePreview = async () => {
+      previewCancellation = this.restartCancellation(previewCancellation);
+      const token = previewCancellation.token;
+
+      let pattern: RegExp;
+      let volumePattern: RegExp | undefined;
+      try {
+        pattern = new RegExp(patterns.chapter || defaultPattern);
+        const volumeSource = patterns.volume || defaultVolumePattern;
+        volumePattern = volumeSource ? new RegExp(volumeSource) : undefined;
+        patternValid = true;
+      } catch (error) {
+        patternValid = false;
+        quickPick.busy = false;
+        quickPick.items = [
+          {
+            label: "$(error) 正则表达式无效",
+            detail: (error as Error).message,
+            alwaysShow: true,
+          },
+        ];
+        return;
+      }
+
+      quickPick.busy = true;
+      let preview: ChapterPatternPreview;
+      try {
+        preview = await this.previewChapterPattern(pattern, volumePattern, token);
+      } catch (error) {
+        if (!token.isCancellationRequested) {
+          quickPick.busy = false;
+          quickPick.items = [
+            {
+              label: "$(error) 预览失败",
+              detail: String(error),
+              alwaysShow: true,
+            },
+          ];
+        }
+        return;
+      }
+      if (token.isCancellationRequested) {
+        return;
+      }
+      quickPick.busy = false;
+
+      const { chapters, volumes, averageGap, maxGap, maxGapAfter } = preview;
+      const gapPosition =
+        maxGapAfter === -1
+          ? "第一章之前"
+          : `「${chapters[maxGapAfter].name}」之后`;
+      const summary: vscode.QuickPickItem = {
+        label:
+          chapters.length > 0
+            ? `$(list-tree) 共匹配 ${volumes > 0 ? `${volumes} 卷、` : ""}${chapters.length} 个章节`
+            : "$(warning) 没有匹配到任何章节",
+        detail:
+          chapters.length > 0
+            ? `平均每章 ${averageGap} 行，最大间隔 ${maxGap} 行（${gapPosition}）`
+            : undefined,
+        alwaysShow: true,
+      };
+
+      // 间隔明显偏大的章节可能漏掉了后续章节标题
+      const items = chapters.slice(0, previewLimit).map((chapter, i) => {
+        const next = i + 1 < chapters.length ? chapters[i + 1].line : this.totalLines;
+        const gap = next - chapter.line;
+        const suspicious = averageGap > 0 && gap > averageGap * 3;
+        return {
+          label: `${suspicious ? "$(warning) " : ""}${chapter.name}`,
+          description: `第 ${chapter.line} 行 · ${gap} 行`,
+          line: chapter.line,
+          alwaysShow: true,
+        };
+      });
+      if (chapters.length > previewLimit) {
+        items.push({
+          label: `…… 还有 ${chapters.length - previewLimit} 个章节`,
+          description: "",
+          line: -1,
+          alwaysShow: true,
+        });
+      }
+
+      quickPick.items = [summary, ...items];
+    };
+
+    quickPick.onDidChangeValue((value) => {
+      patterns[editing] = value;
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+      }
+      debounceTimer = setTimeout(() => updatePreview(), 300);
+    });
+
+    quickPick.onDidTriggerButton(() => {
+      editing = editing === "chapter" ? "volume" : "chapter";
+      updateTitle();
+      quickPick.value = patterns[editing];
+    });
+
+    quickPick.onDidAccept(async () => {
+      if (!patternValid) {
+        return;
+      }
+      quickPick.hide();
+
+      await BookConfigManager.updateChapterPattern(
+        this.fileUri.fsPath,
+        patterns.chapter,
+        findPresetByPattern(patterns.chapter, patterns.volume)?.id,
+        patterns.volume
+      );
+      vscode.window.showInformationMessage("章节分割规则已更新");
+      await this.reloadChapters();
+    });
+
+    quickPick.onDidHide(() => {
+      if (debounceTimer) {
+        clearTimeout(debounceTimer);
+      }
+      previewCancellation?.cancel();
+      previewCancellation?.dispose();
+      quickPick.dispose();
+    });
+
+    quickPick.show();
+    updatePreview();
+  }
+
+  /**
+   * 以指定编码重新打开文档（未指定时弹出选择列表），选择会保存到文档配置中
+   */
+  public async reopenWithEncoding(encoding?: string) {
+    if (this.epub) {
+      vscode.window.showInformationMessage("EPUB 文档不需要选择编码");
+      return;
+    }
+    if (!encoding) {
+      const detected = await detectFileEncoding(this.fileUri.fsPath);
+      const picked = await vscode.window.showQuickPick(
+        supportedEncodings.map((e) => ({
+          label: e.label,
+          description: [
+            e.encoding === this.encoding ? "当前" : "",
+            e.encoding === detected.encoding
+              ? `检测结果（置信度 ${Math.round(detected.confidence * 100)}%）`
+              : "",
+          ]
+            .filter(Boolean)
+            .join(" · "),
+          encoding: e.encoding,
+        })),
+        { placeHolder: "选择重新打开文档所使用的编码" }
+      );
+      if (!picked) {
+        return;
+      }
+      encoding = picked.encoding;
+    }
+
+    await BookConfigManager.updateEncoding(this.fileUri.fsPath, encoding);
+    this.bookConfig = await BookConfigManager.loadConfig(this.fileUri.fsPath);
+
+    // 清空按旧编码读取的内容，重新初始化
+    this.chunkCache.clear();
+    this.lineIndex = undefined;
+    this.document = undefined;
+    this.lines = [];
+    this.content = "";
+    await this.initializeFile();
+
+    await this.sendInitialContent();
+    this.scanChaptersAsync();
+    vscode.window.showInformationMessage(
+      `已使用 ${getEncodingLabel(this.encoding)} 重新打开文档`
     );
   }
 
@@ -477,6 +1231,218 @@ export class TxtReaderProvider {
     this.updateWebview();
   }
 
+  /**
+   * 切换分页 / 滚动阅读模式，选择会作为新打开文档的默认模式
+   */
+  public async togglePageMode() {
+    this.pageMode = !this.pageMode;
+    this.panel?.webview.postMessage({
+      command: "setPageMode",
+      enabled: this.pageMode,
+      line: this.currentLine,
+      offset: this.currentOffset,
+    });
+    await vscode.workspace
+      .getConfiguration("evaReader")
+      .update("pageMode", this.pageMode, vscode.ConfigurationTarget.Global);
+  }
+
+  /**
+   * 向后翻一页（滚动模式下滚动一屏）
+   */
+  public nextPage() {
+    this.panel?.webview.postMessage({ command: "turnPage", direction: 1 });
+  }
+
+  /**
+   * 向前翻一页（滚动模式下滚动一屏）
+   */
+  public previousPage() {
+    this.panel?.webview.postMessage({ command: "turnPage", direction: -1 });
+  }
+
+  /**
+   * 开始 / 暂停自动滚动（分页模式下为自动翻页）
+   */
+  public toggleAutoScroll() {
+    this.autoScrolling = !this.autoScrolling;
+    this.postAutoScroll();
+    vscode.window.setStatusBarMessage(
+      this.autoScrolling
+        ? `自动滚动：${this.autoScrollSpeed} 行/分钟`
+        : "自动滚动已暂停",
+      2000
+    );
+  }
+
+  /**
+   * 暂停自动滚动（面板失去焦点时调用）
+   */
+  public pauseAutoScroll() {
+    if (this.autoScrolling) {
+      this.autoScrolling = false;
+      this.postAutoScroll();
+    }
+  }
+
+  /**
+   * 调整自动滚动速度（每次增减 20%），速度按文档保存
+   */
+  public async changeAutoScrollSpeed(direction: number) {
+    const { min, max } = TxtReaderProvider.autoScrollSpeedRange;
+    const factor = direction > 0 ? 1.2 : 1 / 1.2;
+    let speed = Math.round(this.autoScrollSpeed * factor);
+    if (speed === this.autoScrollSpeed) {
+      speed += direction > 0 ? 1 : -1;
+    }
+    this.autoScrollSpeed = Math.max(min, Math.min(max, speed));
+    this.postAutoScroll();
+    vscode.window.setStatusBarMessage(
+      `自动滚动速度：${this.autoScrollSpeed} 行/分钟`,
+      2000
+    );
+    await BookConfigManager.updateAutoScrollSpeed(
+      this.fileUri.fsPath,
+      this.autoScrollSpeed
+    );
+  }
+
+  private postAutoScroll() {
+    this.panel?.webview.postMessage({
+      command: "setAutoScroll",
+      running: this.autoScrolling,
+      speed: this.autoScrollSpeed,
+    });
+  }
+
+  /**
+   * 开始 / 暂停朗读
+   */
+  public toggleSpeech() {
+    this.panel?.webview.postMessage({
+      command: "toggleSpeech",
+      options: this.getSpeechOptions(),
+    });
+  }
+
+  /**
+   * 朗读时跳到下一句（direction 为 -1 时回到上一句）
+   */
+  public skipSentence(direction: number) {
+    this.panel?.webview.postMessage({ command: "skipSentence", direction });
+  }
+
+  /**
+   * 选择朗读语音：语音列表只能在 webview 中获取，收到列表后再弹出选择框
+   */
+  public selectSpeechVoice() {
+    this.panel?.webview.postMessage({ command: "requestSpeechVoices" });
+  }
+
+  /**
+   * 朗读设置变化后通知 webview（正在朗读时从下一句开始生效）
+   */
+  public updateSpeechOptions() {
+    this.panel?.webview.postMessage({
+      command: "setSpeechOptions",
+      options: this.getSpeechOptions(),
+    });
+  }
+
+  private getSpeechOptions() {
+    const config = vscode.workspace.getConfiguration("evaReader");
+    return {
+      voice: config.get<string>("speechVoice", ""),
+      rate: config.get<number>("speechRate", 1),
+      pitch: config.get<number>("speechPitch", 1),
+    };
+  }
+
+  private async pickSpeechVoice(
+    voices: { name: string; lang: string; isDefault: boolean }[]
+  ) {
+    if (voices.length === 0) {
+      vscode.window.showWarningMessage("当前环境没有可用的朗读语音");
+      return;
+    }
+
+    const current = this.getSpeechOptions().voice;
+    const items = [
+      { label: "系统默认", description: "", voice: "" },
+      ...voices
+        // 中文语音排在前面
+        .sort((a, b) => Number(b.lang.startsWith("zh")) - Number(a.lang.startsWith("zh")))
+        .map((voice) => ({
+          label: voice.name,
+          description: voice.isDefault ? `${voice.lang}（默认）` : voice.lang,
+          voice: voice.name,
+        })),
+    ].map((item) => ({
+      ...item,
+      label: item.voice === current ? `$(check) ${item.label}` : item.label,
+    }));
+
+    const picked = await vscode.window.showQuickPick(items, {
+      placeHolder: "选择朗读语音",
+      matchOnDescription: true,
+    });
+    if (!picked) {
+      return;
+    }
+    // 配置变化监听会把新语音同步到所有阅读器
+    await vscode.workspace
+      .getConfiguration("evaReader")
+      .update("speechVoice", picked.voice, vscode.ConfigurationTarget.Global);
+  }
+
+  /**
+   * 发送分页用的内容段：以所在章节为单位，超长章节或没有章节时按固定行数分段
+   * target 原样返回给 webview，用于确定显示哪一页
+   */
+  private async sendPageSection(line: number, target: unknown, requestId: number) {
+    if (!this.panel) {
+      return;
+    }
+
+    const total = this.useChunkMode ? this.totalLines : this.lines.length;
+    line = Math.max(0, Math.min(line, total - 1));
+
+    let startLine = 0;
+    let endLine = total - 1;
+    let title: string | undefined;
+    for (const chapter of this.chapters) {
+      if (chapter.line <= line) {
+        startLine = chapter.line;
+        title = chapter.name;
+      } else {
+        endLine = chapter.line - 1;
+        break;
+      }
+    }
+
+    const maxLines = TxtReaderProvider.pageSectionLines;
+    const partial = endLine - startLine + 1 > maxLines;
+    if (partial) {
+      startLine += Math.floor((line - startLine) / maxLines) * maxLines;
+      endLine = Math.min(endLine, startLine + maxLines - 1);
+    }
+
+    const lines = this.useChunkMode
+      ? await this.getChunk(startLine, endLine)
+      : this.getDisplayLines().slice(startLine, endLine + 1);
+
+    this.panel.webview.postMessage({
+      command: "pageSection",
+      requestId: requestId,
+      startLine: startLine,
+      endLine: startLine + lines.length - 1,
+      lines: lines,
+      title: title,
+      partial: partial,
+      target: target,
+    });
+  }
+
   public jumpToLine(line: number) {
     const maxLine = this.useChunkMode
       ? this.totalLines - 1
@@ -540,152 +1506,598 @@ export class TxtReaderProvider {
     }
   }
 
+  /**
+   * 生成搜索结果：内容去除首尾空白，匹配位置随之偏移
+   */
+  private createSearchResult(
+    lineNumber: number,
+    line: string,
+    ranges: MatchRange[]
+  ): SearchResult {
+    const content = line.trim();
+    const leading = line.length - line.trimStart().length;
+    return {
+      line: lineNumber,
+      content: content,
+      matches: ranges.map((range) => ({
+        start: Math.max(0, range.start - leading),
+        end: Math.min(content.length, range.end - leading),
+      })),
+    };
+  }
+
   /**
    * 异步搜索（支持大文件）
    */
-  public async searchAsync(searchTerm: string) {
-    const results: SearchResult[] = [];
-    const maxResults = 1000; // 限制最大结果数
+  public async searchAsync(
+    searchTerm: string,
+    options: SearchOptions = this.searchOptions
+  ) {
+    this.searchOptions = { ...defaultSearchOptions, ...options };
+
+    let matcher: SearchMatcher;
+    try {
+      matcher = createSearchMatcher(searchTerm, this.searchOptions);
+    } catch (error) {
+      // 表达式错误显示在侧边栏搜索框下方
+      if (error instanceof SearchPatternError) {
+        this.panel?.webview.postMessage({
+          command: "searchError",
+          message: error.message,
+        });
+      } else {
+        vscode.window.showErrorMessage(`搜索失败: ${error}`);
+      }
+      return;
+    }
+
+    this.searchCancellation = this.restartCancellation(this.searchCancellation);
+    const cancellation = this.searchCancellation;
+    this.searchRequestId++;
+
+    this.searchTerm = searchTerm;
+    this.searchMatcher = matcher;
+    this.searchResults = [];
+    this.searchTotalMatches = 0;
+    this.searchPage = 0;
+    this.currentMatch = undefined;
 
     if (this.useChunkMode) {
-      // 分块搜索
-      await this.searchInChunks(searchTerm, results, maxResults);
-    } else {
-      // 小文件直接搜索
-      for (let i = 0; i < this.lines.length; i++) {
-        if (this.lines[i].includes(searchTerm)) {
-          results.push({
-            line: i,
-            content: this.lines[i].trim(),
-          });
-          if (results.length >= maxResults) {
-            break;
-          }
+      // 分块搜索；读取文件出错时提示并保留已找到的部分结果
+      try {
+        await this.runWithProgress(`正在搜索 "${searchTerm}"`, cancellation, (report) =>
+          this.searchInChunks(matcher, cancellation.token, report)
+        );
+      } catch (error) {
+        if (cancellation === this.searchCancellation) {
+          vscode.window.showErrorMessage(`搜索失败: ${error}`);
+          this.sendSearchPage(this.searchPage, true, undefined, true);
         }
+        return;
       }
 
-      if (this.panel) {
-        this.panel.webview.postMessage({
-          command: "searchResults",
-          results: results,
-          searchTerm: searchTerm,
-          hasMore: results.length >= maxResults,
-        });
+      if (cancellation.token.isCancellationRequested) {
+        // 被用户取消时保留已找到的部分结果；被新的搜索取消时直接丢弃
+        if (cancellation === this.searchCancellation && this.panel) {
+          this.sendSearchPage(this.searchPage, true, undefined, true);
+        }
+        return;
+      }
+    } else {
+      // 小文件直接搜索
+      for (let i = 0; i < this.lines.length; i++) {
+        this.collectSearchResult(i, this.lines[i], matcher);
       }
     }
+    this.sendSearchPage(0, true);
 
-    if (results.length === 0) {
+    if (this.searchResults.length === 0) {
       vscode.window.showInformationMessage(`未找到 "${searchTerm}"`);
     } else {
       vscode.window.showInformationMessage(
-        `找到 ${results.length} 个匹配结果${
-          results.length >= maxResults ? "（已限制显示数量）" : ""
-        }`
+        `找到 ${this.searchTotalMatches} 处匹配（${this.searchResults.length} 行）`
       );
     }
   }
 
+  /**
+   * 匹配一行并记录结果
+   */
+  private collectSearchResult(
+    lineNumber: number,
+    line: string,
+    matcher: SearchMatcher
+  ) {
+    const ranges = matcher.find(line);
+    if (ranges.length > 0) {
+      this.searchResults.push(this.createSearchResult(lineNumber, line, ranges));
+      this.searchTotalMatches += ranges.length;
+    }
+  }
+
+  /**
+   * 传给 webview 用于高亮正文的匹配规则
+   */
+  private getMatcherInfo(matcher: SearchMatcher) {
+    return {
+      source: matcher.source,
+      flags: matcher.flags,
+      ignoreWidth: matcher.ignoreWidth,
+    };
+  }
+
+  /**
+   * 发送一页搜索结果
+   */
+  private sendSearchPage(
+    page: number,
+    done: boolean = true,
+    progress?: number,
+    cancelled: boolean = false
+  ) {
+    if (!this.panel || !this.searchMatcher) {
+      return;
+    }
+
+    const pageSize = TxtReaderProvider.searchPageSize;
+    const pageCount = Math.max(1, Math.ceil(this.searchResults.length / pageSize));
+    this.searchPage = Math.min(Math.max(0, page), pageCount - 1);
+    const start = this.searchPage * pageSize;
+
+    this.panel.webview.postMessage({
+      command: "searchResults",
+      requestId: this.searchRequestId,
+      results: this.searchResults.slice(start, start + pageSize),
+      searchTerm: this.searchTerm,
+      matcher: this.getMatcherInfo(this.searchMatcher),
+      page: this.searchPage,
+      pageCount: pageCount,
+      pageSize: pageSize,
+      totalResults: this.searchResults.length,
+      totalMatches: this.searchTotalMatches,
+      done: done,
+      cancelled: cancelled,
+      progress: progress,
+      total: this.totalLines,
+    });
+  }
+
   /**
    * 分块搜索
    */
   private async searchInChunks(
-    searchTerm: string,
-    results: SearchResult[],
-    maxResults: number
+    matcher: SearchMatcher,
+    token: vscode.CancellationToken,
+    report: (processedLines: number) => void
   ): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const stream = fs.createReadStream(this.fileUri.fsPath, {
-        encoding: "utf8",
-      });
-      let buffer = "";
-      let lineNumber = 0;
-      const chunkSize = 1000;
+    let lastPostTime = Date.now();
 
-      stream.on("data", (chunk: string) => {
-        buffer += chunk;
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+    await this.streamLines(
+      token,
+      (line, lineNumber) => this.collectSearchResult(lineNumber, line, matcher),
+      (processedLines) => {
+        report(processedLines);
+        // 定期更新搜索进度和当前页结果
+        if (Date.now() - lastPostTime > 300) {
+          lastPostTime = Date.now();
+          this.sendSearchPage(this.searchPage, false, processedLines);
+        }
+      }
+    );
+  }
 
-        for (const line of lines) {
-          if (line.includes(searchTerm)) {
-            results.push({
-              line: lineNumber,
-              content: line.trim(),
-            });
+  public searchNext() {
+    this.navigateSearch(1);
+  }
 
-            // 定期更新搜索结果
-            if (results.length % 10 === 0 && this.panel) {
-              this.panel.webview.postMessage({
-                command: "searchResults",
-                results: results.slice(0, Math.min(100, results.length)),
-                searchTerm: searchTerm,
-                hasMore: results.length < maxResults ? false : true,
-                progress: lineNumber,
-                total: this.totalLines,
-              });
-            }
+  public searchPrevious() {
+    this.navigateSearch(-1);
+  }
 
-            if (results.length >= maxResults) {
-              stream.destroy();
-              break;
-            }
-          }
-          lineNumber++;
-        }
+  /**
+   * 跳转到下一个/上一个匹配，首次跳转从当前阅读位置开始，到达末尾后循环
+   */
+  private navigateSearch(direction: 1 | -1) {
+    const results = this.searchResults;
+    if (results.length === 0) {
+      vscode.window.showInformationMessage("没有可跳转的搜索结果，请先搜索");
+      return;
+    }
 
-        // 每处理一定数量后让出控制权
-        if (lineNumber % chunkSize === 0) {
-          setImmediate(() => {});
+    let resultIndex: number;
+    let matchIndex: number;
+    if (!this.currentMatch) {
+      if (direction > 0) {
+        resultIndex = results.findIndex((r) => r.line >= this.currentLine);
+        resultIndex = resultIndex === -1 ? 0 : resultIndex;
+        matchIndex = 0;
+      } else {
+        resultIndex = results.length - 1;
+        while (resultIndex > 0 && results[resultIndex].line > this.currentLine) {
+          resultIndex--;
         }
+        matchIndex = results[resultIndex].matches.length - 1;
+      }
+    } else {
+      resultIndex = this.currentMatch.result;
+      matchIndex = this.currentMatch.match + direction;
+      if (matchIndex >= results[resultIndex].matches.length) {
+        resultIndex = (resultIndex + 1) % results.length;
+        matchIndex = 0;
+      } else if (matchIndex < 0) {
+        resultIndex = (resultIndex - 1 + results.length) % results.length;
+        matchIndex = results[resultIndex].matches.length - 1;
+      }
+    }
+
+    this.goToSearchMatch(resultIndex, matchIndex);
+  }
+
+  /**
+   * 跳转到指定搜索结果中的某个匹配，并通知 webview 高亮
+   */
+  private goToSearchMatch(resultIndex: number, matchIndex: number) {
+    const result = this.searchResults[resultIndex];
+    if (!result) {
+      return;
+    }
+
+    this.currentMatch = { result: resultIndex, match: matchIndex };
+
+    // 计算这是第几处匹配
+    let ordinal = matchIndex + 1;
+    for (let i = 0; i < resultIndex; i++) {
+      ordinal += this.searchResults[i].matches.length;
+    }
+
+    // 结果不在 webview 当前显示的页中时，切换到对应页
+    const page = Math.floor(resultIndex / TxtReaderProvider.searchPageSize);
+    if (page !== this.searchPage) {
+      this.sendSearchPage(page);
+    }
+
+    if (this.panel) {
+      this.panel.webview.postMessage({
+        command: "searchCurrentMatch",
+        requestId: this.searchRequestId,
+        line: result.line,
+        resultIndex: resultIndex,
+        matchIndex: matchIndex,
+        ordinal: ordinal,
+        totalMatches: this.searchTotalMatches,
       });
+    }
+    this.jumpToLine(result.line);
+  }
+
+  public search(searchTerm: string) {
+    // 保持向后兼容
+    this.searchAsync(searchTerm);
+  }
+
+  public showChapters() {
+    if (this.chapters.length === 0) {
+      vscode.window.showInformationMessage(
+        "未识别到任何章节，请配置章节分割规则"
+      );
+      return;
+    }
+
+    this.sendChaptersToWebview();
+  }
+
+  private getChapterOverrides(): ChapterOverrides {
+    const overrides = this.bookConfig?.chapterOverrides;
+    return {
+      added: [...(overrides?.added ?? [])],
+      removed: [...(overrides?.removed ?? [])],
+      renamed: { ...(overrides?.renamed ?? {}) },
+    };
+  }
+
+  /**
+   * 保存章节目录的手动修改，并立即在当前识别结果上重新应用
+   */
+  private async saveChapterOverrides(overrides: ChapterOverrides | undefined) {
+    const isEmpty =
+      !overrides ||
+      (overrides.added.length === 0 &&
+        overrides.removed.length === 0 &&
+        Object.keys(overrides.renamed).length === 0);
+    await BookConfigManager.updateChapterOverrides(
+      this.fileUri.fsPath,
+      isEmpty ? undefined : overrides
+    );
+    this.bookConfig = await BookConfigManager.loadConfig(this.fileUri.fsPath);
+    this.chapters = this.applyChapterOverrides(this.scannedChapters);
+    this.sendChaptersToWebview();
+  }
+
+  /**
+   * 在指定行（默认为当前阅读位置）插入章节或卷
+   */
+  public async insertChapter(line: number = this.currentLine, level: number = 1) {
+    const existing = this.chapters.find((chapter) => chapter.line === line);
+    if (existing) {
+      vscode.window.showInformationMessage(`第 ${line} 行已经是章节「${existing.name}」`);
+      return;
+    }
+
+    const lineText = (await this.getLineText(line)).trim();
+    const name = await vscode.window.showInputBox({
+      prompt: level === 0 ? `在第 ${line} 行插入卷` : `在第 ${line} 行插入章节`,
+      value: lineText.slice(0, 50) || `第 ${line} 行`,
+    });
+    if (!name) {
+      return;
+    }
+
+    const overrides = this.getChapterOverrides();
+    overrides.added.push({ name: name, line: line, level: level });
+    overrides.removed = overrides.removed.filter((removed) => removed !== line);
+    delete overrides.renamed[line];
+    await this.saveChapterOverrides(overrides);
+  }
+
+  public async renameChapter(line: number) {
+    const chapter = this.chapters.find((c) => c.line === line);
+    if (!chapter) {
+      return;
+    }
+
+    const name = await vscode.window.showInputBox({
+      prompt: "请输入章节名称",
+      value: chapter.name,
+    });
+    if (!name || name === chapter.name) {
+      return;
+    }
+
+    const overrides = this.getChapterOverrides();
+    const added = overrides.added.find((c) => c.line === line);
+    if (added) {
+      added.name = name;
+    } else if (this.scannedChapters.find((c) => c.line === line)?.name === name) {
+      // 改回识别出的原名称时不再记录
+      delete overrides.renamed[line];
+    } else {
+      overrides.renamed[line] = name;
+    }
+    await this.saveChapterOverrides(overrides);
+  }
+
+  /**
+   * 删除章节（误识别的标题），该章节的内容归入上一章
+   */
+  public async deleteChapter(line: number) {
+    const overrides = this.getChapterOverrides();
+    overrides.added = overrides.added.filter((c) => c.line !== line);
+    delete overrides.renamed[line];
+    if (this.scannedChapters.some((c) => c.line === line) && !overrides.removed.includes(line)) {
+      overrides.removed.push(line);
+    }
+    await this.saveChapterOverrides(overrides);
+  }
+
+  /**
+   * 将章节合并到上一章
+   */
+  public async mergeChapter(line: number) {
+    const index = this.chapters.findIndex((c) => c.line === line);
+    if (index <= 0) {
+      return;
+    }
+    const merged = this.chapters[index];
+    const previous = this.chapters[index - 1];
+    await this.deleteChapter(line);
+    vscode.window.showInformationMessage(`已将「${merged.name}」合并到「${previous.name}」`);
+  }
+
+  /**
+   * 撤销所有手动修改，恢复为按规则识别的结果
+   */
+  public async resetChapterEdits() {
+    if (!this.bookConfig?.chapterOverrides) {
+      vscode.window.showInformationMessage("章节目录没有手动修改");
+      return;
+    }
+
+    const confirm = await vscode.window.showWarningMessage(
+      "确定要撤销对章节目录的所有手动修改吗？",
+      { modal: true },
+      "撤销修改"
+    );
+    if (confirm) {
+      await this.saveChapterOverrides(undefined);
+    }
+  }
+
+  /**
+   * 获取指定行的文本
+   */
+  private async getLineText(line: number): Promise<string> {
+    if (!this.useChunkMode) {
+      return this.lines[line] ?? "";
+    }
+    const lines = await this.getChunk(line, line);
+    return lines[0] ?? "";
+  }
+
+  private createAnchor(text: string): string {
+    return text.trim().slice(0, 30);
+  }
+
+  /**
+   * 根据文本锚点重新定位书签：锚点与原行不符时，在附近范围内查找最近的匹配行
+   */
+  private async relocateBookmarks() {
+    const searchRadius = 500;
+    let changed = false;
+
+    for (const bookmark of this.bookmarks) {
+      if (!bookmark.anchor) {
+        continue;
+      }
+
+      const maxLine = this.totalLines - 1;
+      const startLine = Math.max(0, Math.min(bookmark.line, maxLine) - searchRadius);
+      const endLine = Math.min(maxLine, bookmark.line + searchRadius);
+      const lines = this.useChunkMode
+        ? await this.getChunk(startLine, endLine)
+        : this.lines.slice(startLine, endLine + 1);
+
+      const isMatch = (line: number) =>
+        (lines[line - startLine] ?? "").trim().startsWith(bookmark.anchor);
+      if (isMatch(bookmark.line)) {
+        continue;
+      }
+
+      // 由近及远查找
+      for (let distance = 1; distance <= searchRadius; distance++) {
+        const candidate = [bookmark.line - distance, bookmark.line + distance].find(
+          (line) => line >= startLine && line <= endLine && isMatch(line)
+        );
+        if (candidate !== undefined) {
+          bookmark.line = candidate;
+          changed = true;
+          break;
+        }
+      }
+    }
+
+    if (changed) {
+      this.bookmarks.sort((a, b) => a.line - b.line);
+      await BookConfigManager.updateBookmarks(this.fileUri.fsPath, this.bookmarks);
+    }
+  }
+
+  private findChapterName(line: number): string | undefined {
+    for (let i = this.chapters.length - 1; i >= 0; i--) {
+      if (line >= this.chapters[i].line) {
+        return this.chapters[i].name;
+      }
+    }
+    return undefined;
+  }
+
+  private async saveBookmarks() {
+    this.bookmarks.sort((a, b) => a.line - b.line);
+    await BookConfigManager.updateBookmarks(this.fileUri.fsPath, this.bookmarks);
+    this.sendBookmarksToWebview();
+  }
+
+  /**
+   * 在指定行（默认当前行）添加书签
+   */
+  public async addBookmark(line: number = this.currentLine) {
+    if (this.bookmarks.some((b) => b.line === line)) {
+      vscode.window.showInformationMessage(`第 ${line} 行已有书签`);
+      return;
+    }
+
+    const text = await this.getLineText(line);
+    const anchor = this.createAnchor(text);
+    const chapterName = this.findChapterName(line);
+
+    this.bookmarks.push({
+      id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      line: line,
+      name: chapterName ? `${chapterName} · 第 ${line} 行` : anchor || `第 ${line} 行`,
+      anchor: anchor,
+      createdAt: new Date().toISOString(),
+    });
+    await this.saveBookmarks();
+    vscode.window.showInformationMessage(`已在第 ${line} 行添加书签`);
+  }
+
+  /**
+   * 切换当前行的书签（有则删除，无则添加）
+   */
+  public async toggleBookmark() {
+    const existing = this.bookmarks.find((b) => b.line === this.currentLine);
+    if (existing) {
+      await this.removeBookmark(existing.id);
+      vscode.window.showInformationMessage(`已删除第 ${existing.line} 行的书签`);
+    } else {
+      await this.addBookmark(this.currentLine);
+    }
+  }
 
-      stream.on("end", () => {
-        // 处理最后一行
-        if (buffer.includes(searchTerm)) {
-          results.push({
-            line: lineNumber,
-            content: buffer.trim(),
-          });
-        }
+  public async removeBookmark(id: string) {
+    this.bookmarks = this.bookmarks.filter((b) => b.id !== id);
+    await this.saveBookmarks();
+  }
 
-        if (this.panel) {
-          this.panel.webview.postMessage({
-            command: "searchResults",
-            results: results.slice(0, Math.min(100, results.length)),
-            searchTerm: searchTerm,
-            hasMore: false,
-            totalResults: results.length,
-          });
-        }
-        resolve();
-      });
+  public async renameBookmark(id: string) {
+    const bookmark = this.bookmarks.find((b) => b.id === id);
+    if (!bookmark) {
+      return;
+    }
 
-      stream.on("error", (error) => {
-        reject(error);
-      });
+    const name = await vscode.window.showInputBox({
+      prompt: "请输入书签名称",
+      value: bookmark.name,
     });
+    if (name) {
+      bookmark.name = name;
+      await this.saveBookmarks();
+    }
   }
 
-  public search(searchTerm: string) {
-    // 保持向后兼容
-    this.searchAsync(searchTerm);
+  public async editBookmarkNote(id: string) {
+    const bookmark = this.bookmarks.find((b) => b.id === id);
+    if (!bookmark) {
+      return;
+    }
+
+    const note = await vscode.window.showInputBox({
+      prompt: "请输入书签备注（留空则删除备注）",
+      value: bookmark.note || "",
+    });
+    if (note !== undefined) {
+      bookmark.note = note || undefined;
+      await this.saveBookmarks();
+    }
   }
 
-  public showChapters() {
-    if (this.chapters.length === 0) {
-      vscode.window.showInformationMessage(
-        "未识别到任何章节，请配置章节分割规则"
-      );
+  /**
+   * 以快速选择列表显示书签，选择后跳转
+   */
+  public async showBookmarks() {
+    if (this.bookmarks.length === 0) {
+      vscode.window.showInformationMessage("当前文档还没有书签");
       return;
     }
 
-    this.sendChaptersToWebview();
+    const picked = await vscode.window.showQuickPick(
+      this.bookmarks.map((b) => ({
+        label: `$(bookmark) ${b.name}`,
+        description: `第 ${b.line} 行`,
+        detail: b.note || b.anchor,
+        line: b.line,
+      })),
+      { placeHolder: "选择要跳转的书签", matchOnDetail: true }
+    );
+
+    if (picked) {
+      this.jumpToLine(picked.line);
+    }
+  }
+
+  private sendBookmarksToWebview() {
+    if (this.panel) {
+      this.panel.webview.postMessage({
+        command: "updateBookmarks",
+        bookmarks: this.bookmarks,
+      });
+    }
   }
 
   private sendChaptersToWebview() {
     if (this.panel) {
       this.panel.webview.postMessage({
         command: "updateChapters",
+        requestId: this.chapterScanRequestId,
         chapters: this.chapters,
       });
     }
@@ -747,7 +2159,10 @@ export class TxtReaderProvider {
         startLine: startLine,
         endLine: actualEndLine,
         currentLine: this.currentLine,
+        currentOffset: this.currentOffset,
         totalLines: this.totalLines,
+        encoding: getEncodingLabel(this.encoding),
+        encodingConfidence: this.detectedConfidence,
       });
     } else {
       // 传统模式：发送所有行（小文件或禁用虚拟滚动时）
@@ -770,13 +2185,25 @@ export class TxtReaderProvider {
       this.panel.webview.postMessage({
         command: "initContent",
         useVirtualScroll: false,
-        allLines: this.lines,
+        allLines: this.getDisplayLines(),
+        html: this.epub !== undefined,
         currentLine: this.currentLine,
+        currentOffset: this.currentOffset,
         totalLines: this.useChunkMode ? this.totalLines : this.lines.length,
+        encoding: this.epub ? "EPUB" : getEncodingLabel(this.encoding),
+        encodingConfidence: this.detectedConfidence,
       });
     }
 
     this.sendChaptersToWebview();
+    this.sendBookmarksToWebview();
+  }
+
+  /**
+   * 用于显示的行：EPUB 为过滤后的 HTML，其余为纯文本
+   */
+  private getDisplayLines(): string[] {
+    return this.epub ? this.epub.htmlLines : this.lines;
   }
 
   private updateWebview() {
@@ -788,8 +2215,9 @@ export class TxtReaderProvider {
     }
   }
 
-  private updateProgress(line: number) {
+  private updateProgress(line: number, offset: number = 0) {
     this.currentLine = line;
+    this.currentOffset = offset;
 
     // 延迟保存进度，避免频繁写入
     if (this.saveProgressTimer) {
@@ -806,12 +2234,37 @@ export class TxtReaderProvider {
       const totalLines = this.useChunkMode
         ? this.totalLines
         : this.lines.length;
-      await BookConfigManager.updateProgress(
+      const finished = await BookConfigManager.updateProgress(
         this.fileUri.fsPath,
         this.currentLine,
-        totalLines
+        totalLines,
+        this.currentOffset,
+        this.epub ? lineToEpubPosition(this.epub, this.currentLine) : undefined,
+        this.getFinishLine(totalLines)
       );
+      // 伪装模式下不弹出提示
+      if (finished && this.stealthStyle === "off") {
+        const fileName = path.basename(this.fileUri.fsPath);
+        vscode.window.showInformationMessage(
+          `《${path.basename(fileName, path.extname(fileName))}》已标记为已读完`
+        );
+      }
+    }
+  }
+
+  /**
+   * 由章节计算读完的判定位置；章节未扫描完时返回 undefined，沿用已记录的位置
+   */
+  private getFinishLine(totalLines: number): number | undefined {
+    if (!this.chapterScanComplete) {
+      return undefined;
     }
+    const chapters = this.chapters.filter((chapter) => chapter.level > 0);
+    const lastChapterLine =
+      chapters.length >= 2
+        ? chapters.reduce((max, chapter) => Math.max(max, chapter.line), 0)
+        : undefined;
+    return BookConfigManager.getFinishLine(totalLines, lastChapterLine);
   }
 
   private getWebviewContent(): string {
@@ -933,10 +2386,62 @@ export class TxtReaderProvider {
         
         #current-chapter-name {
             color: var(--vscode-textLink-foreground);
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
         }
         
-        .progress-info {
+        .breadcrumb-volume {
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .breadcrumb-separator {
+            margin: 0 6px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .encoding-info {
             margin-left: auto;
+            margin-right: 16px;
+            padding: 2px 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        
+        .encoding-info:hover {
+            color: var(--vscode-textLink-foreground);
+            border-color: var(--vscode-focusBorder);
+        }
+        
+        .encoding-info.uncertain {
+            color: var(--vscode-editorWarning-foreground);
+        }
+        
+        .page-info {
+            margin-right: 16px;
+            font-size: 13px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .content-area.page-mode {
+            overflow: hidden;
+            scroll-behavior: auto;
+            cursor: default;
+        }
+        
+        .page-viewport {
+            position: relative;
+            overflow: hidden;
+        }
+        
+        .page-flow {
+            will-change: transform;
+        }
+        
+        .progress-info {
             font-size: 13px;
             color: var(--vscode-descriptionForeground);
         }
@@ -958,6 +2463,68 @@ export class TxtReaderProvider {
             min-height: 1em;
         }
         
+        /* 伪装显示：隐藏侧边栏和工具栏，正文以编辑器字体显示为代码注释或日志输出 */
+        body.stealth-comment .sidebar,
+        body.stealth-comment .sidebar-toggle,
+        body.stealth-comment .toolbar,
+        body.stealth-log .sidebar,
+        body.stealth-log .sidebar-toggle,
+        body.stealth-log .toolbar {
+            display: none !important;
+        }
+        
+        body.stealth-comment .content-area,
+        body.stealth-log .content-area {
+            padding: 4px 0;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+            font-weight: var(--vscode-editor-font-weight);
+            line-height: 1.5;
+            background-color: var(--vscode-editor-background);
+        }
+        
+        body.stealth-comment .content-line {
+            position: relative;
+            padding-left: 8ch;
+        }
+        
+        /* 行号 */
+        body.stealth-comment .content-line::before {
+            content: attr(data-line);
+            position: absolute;
+            left: 0;
+            width: 4ch;
+            text-align: right;
+            color: var(--vscode-editorLineNumber-foreground);
+        }
+        
+        body.stealth-comment .content-line::after {
+            content: '//';
+            position: absolute;
+            left: 5ch;
+            top: 0;
+        }
+        
+        body.vscode-dark.stealth-comment .content-line,
+        body.vscode-high-contrast.stealth-comment .content-line {
+            color: #6a9955;
+        }
+        
+        body.vscode-light.stealth-comment .content-line {
+            color: #008000;
+        }
+        
+        body.stealth-log .content-area {
+            padding: 4px 12px;
+            background-color: var(--vscode-terminal-background, var(--vscode-panel-background));
+            color: var(--vscode-terminal-foreground, var(--vscode-editor-foreground));
+        }
+        
+        body.stealth-log .content-line::before {
+            content: 'INFO  [pool-1-thread-' attr(data-line) '] c.e.reader.TaskRunner - ';
+            color: var(--vscode-terminal-ansiGreen, var(--vscode-descriptionForeground));
+        }
+        
         .virtual-scroll-container {
             position: relative;
         }
@@ -1012,35 +2579,262 @@ export class TxtReaderProvider {
             color: var(--vscode-descriptionForeground);
         }
         
-        .search-result-item {
-            padding: 8px 12px;
-            cursor: pointer;
+        .chapters-toolbar {
+            display: flex;
+            gap: 6px;
+            margin-bottom: 8px;
+        }
+        
+        .chapters-toolbar-button {
+            padding: 4px 8px;
+            font-size: 12px;
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        
+        .chapters-toolbar-button:first-child {
+            flex: 1;
+        }
+        
+        .chapters-toolbar-button:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+        
+        .chapter-item.edited .chapter-name::after {
+            content: ' ✎';
+            font-weight: normal;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .volume-header {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+        
+        .volume-header .chapter-name {
+            flex: 1;
+            margin-bottom: 0;
+        }
+        
+        .volume-toggle {
+            display: inline-block;
+            width: 14px;
+            text-align: center;
+            transition: transform 0.2s;
+        }
+        
+        .volume-group.expanded > .volume-header .volume-toggle {
+            transform: rotate(90deg);
+        }
+        
+        .volume-count {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .volume-group.contains-active:not(.expanded) > .volume-header {
+            border-left: 3px solid var(--vscode-textLink-foreground);
+        }
+        
+        .volume-children {
+            display: none;
+            padding-left: 14px;
+        }
+        
+        .volume-group.expanded > .volume-children {
+            display: block;
+        }
+        
+        .content-line.bookmarked {
+            border-left: 3px solid var(--vscode-textLink-foreground);
+            margin-left: -8px;
+            padding-left: 5px;
+        }
+        
+        .bookmark-item {
+            padding: 8px 12px;
+            cursor: pointer;
+            border-radius: 3px;
+            margin-bottom: 5px;
+            font-size: 13px;
+            transition: background-color 0.2s;
+        }
+        
+        .bookmark-item:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        
+        .bookmark-header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+        }
+        
+        .bookmark-name {
+            font-weight: bold;
+            flex: 1;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        
+        .bookmark-actions {
+            display: none;
+            gap: 2px;
+        }
+        
+        .bookmark-item:hover .bookmark-actions {
+            display: flex;
+        }
+        
+        .bookmark-action {
+            background: none;
+            border: none;
+            cursor: pointer;
+            font-size: 12px;
+            padding: 0 3px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .bookmark-action:hover {
+            color: var(--vscode-textLink-foreground);
+        }
+        
+        .bookmark-meta {
+            font-size: 11px;
+            color: var(--vscode-descriptionForeground);
+            margin-top: 2px;
+        }
+        
+        .bookmark-note {
+            font-size: 12px;
+            margin-top: 4px;
+            padding-left: 6px;
+            border-left: 2px solid var(--vscode-panel-border);
+            color: var(--vscode-descriptionForeground);
+            white-space: pre-wrap;
+        }
+        
+        .context-menu {
+            position: fixed;
+            display: none;
+            min-width: 140px;
+            padding: 4px 0;
+            background-color: var(--vscode-menu-background);
+            color: var(--vscode-menu-foreground);
+            border: 1px solid var(--vscode-menu-border, var(--vscode-panel-border));
+            border-radius: 4px;
+            box-shadow: 0 2px 8px rgba(0, 0, 0, 0.3);
+            z-index: 200;
+            font-size: 13px;
+        }
+        
+        .context-menu-item {
+            padding: 4px 16px;
+            cursor: pointer;
+        }
+        
+        .context-menu-item:hover {
+            background-color: var(--vscode-menu-selectionBackground);
+            color: var(--vscode-menu-selectionForeground);
+        }
+        
+        .search-result-item {
+            padding: 8px 12px;
+            cursor: pointer;
+            border-radius: 3px;
+            margin-bottom: 5px;
+            font-size: 12px;
+        }
+        
+        .search-result-item:hover {
+            background-color: var(--vscode-list-hoverBackground);
+        }
+        
+        .search-line {
+            color: var(--vscode-textLink-foreground);
+            font-weight: bold;
+            margin-bottom: 3px;
+        }
+        
+        .search-content {
+            color: var(--vscode-descriptionForeground);
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        
+        .search-highlight {
+            background-color: var(--vscode-editor-findMatchHighlightBackground);
+            color: var(--vscode-editor-foreground);
+            padding: 1px 2px;
+        }
+        
+        .search-highlight.current {
+            background-color: var(--vscode-editor-findMatchBackground);
+            outline: 1px solid var(--vscode-editor-findMatchBorder, var(--vscode-focusBorder));
+        }
+        
+        .speaking {
+            background-color: var(--vscode-editor-wordHighlightStrongBackground, var(--vscode-editor-selectionHighlightBackground));
+            border-radius: 2px;
+        }
+        
+        .content-line img {
+            max-width: 100%;
+            max-height: 80vh;
+        }
+        
+        .epub-heading {
+            font-weight: bold;
+        }
+        
+        .search-nav {
+            display: flex;
+            align-items: center;
+            gap: 4px;
+            margin-bottom: 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .search-nav-counter {
+            flex: 1;
+        }
+        
+        .search-nav-button {
+            padding: 2px 8px;
+            background: none;
+            color: var(--vscode-foreground);
+            border: 1px solid var(--vscode-panel-border);
             border-radius: 3px;
-            margin-bottom: 5px;
-            font-size: 12px;
+            cursor: pointer;
         }
         
-        .search-result-item:hover {
-            background-color: var(--vscode-list-hoverBackground);
+        .search-nav-button:hover:not(:disabled) {
+            background-color: var(--vscode-toolbar-hoverBackground, var(--vscode-list-hoverBackground));
         }
         
-        .search-line {
-            color: var(--vscode-textLink-foreground);
-            font-weight: bold;
-            margin-bottom: 3px;
+        .search-nav-button:disabled {
+            opacity: 0.4;
+            cursor: default;
         }
         
-        .search-content {
+        .search-pager {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            margin-top: 8px;
+            font-size: 12px;
             color: var(--vscode-descriptionForeground);
-            overflow: hidden;
-            text-overflow: ellipsis;
-            white-space: nowrap;
         }
         
-        .search-highlight {
-            background-color: var(--vscode-editor-findMatchHighlightBackground);
-            color: var(--vscode-editor-foreground);
-            padding: 1px 2px;
+        .search-result-item.current {
+            background-color: var(--vscode-list-inactiveSelectionBackground);
         }
         
         .empty-message {
@@ -1065,6 +2859,41 @@ export class TxtReaderProvider {
             margin-bottom: 8px;
         }
 
+        .search-options {
+            display: flex;
+            gap: 4px;
+            margin-bottom: 8px;
+        }
+        
+        .search-option {
+            flex: 1;
+            padding: 3px 0;
+            font-size: 12px;
+            background: none;
+            color: var(--vscode-descriptionForeground);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 3px;
+            cursor: pointer;
+        }
+        
+        .search-option.active {
+            color: var(--vscode-inputOption-activeForeground);
+            background-color: var(--vscode-inputOption-activeBackground);
+            border-color: var(--vscode-inputOption-activeBorder, var(--vscode-focusBorder));
+        }
+        
+        .search-error {
+            display: none;
+            margin-bottom: 8px;
+            padding: 6px 8px;
+            font-size: 12px;
+            color: var(--vscode-inputValidation-errorForeground, var(--vscode-errorForeground));
+            background-color: var(--vscode-inputValidation-errorBackground);
+            border: 1px solid var(--vscode-inputValidation-errorBorder, var(--vscode-errorForeground));
+            border-radius: 3px;
+            word-break: break-all;
+        }
+        
         .search-button {
             width: 100%;
             padding: 6px 12px;
@@ -1129,18 +2958,38 @@ export class TxtReaderProvider {
             <div class="sidebar-tabs">
                 <button class="sidebar-tab active" data-tab="chapters">章节</button>
                 <button class="sidebar-tab" data-tab="search">搜索</button>
+                <button class="sidebar-tab" data-tab="bookmarks">书签</button>
             </div>
             <div class="sidebar-content">
                 <div id="chapters-panel" class="tab-panel active">
+                    <div class="chapters-toolbar">
+                        <button class="chapters-toolbar-button" title="把当前阅读位置的行设为章节标题" onclick="insertChapterAtCurrentLine()">＋ 在当前行插入章节</button>
+                        <button class="chapters-toolbar-button" title="撤销所有手动修改" onclick="vscode.postMessage({ command: 'resetChapterEdits' })">↺</button>
+                    </div>
                     <div id="chapters-list"></div>
                 </div>
                 <div id="search-panel" class="tab-panel">
                     <div class="search-input-container">
                         <input type="text" id="search-input" class="search-input" placeholder="输入搜索内容...">
+                        <div class="search-options">
+                            <button class="search-option" data-option="matchCase" title="区分大小写">Aa</button>
+                            <button class="search-option" data-option="wholeWord" title="全字匹配">ab</button>
+                            <button class="search-option" data-option="regex" title="使用正则表达式">.*</button>
+                            <button class="search-option" data-option="ignoreWidth" title="忽略全角/半角">全半</button>
+                        </div>
+                        <div id="search-error" class="search-error"></div>
                         <button onclick="doSearch()" class="search-button">搜索</button>
                     </div>
+                    <div class="search-nav" id="search-nav" style="display: none;">
+                        <span class="search-nav-counter" id="search-nav-counter"></span>
+                        <button class="search-nav-button" title="上一个匹配 (Shift+F3)" onclick="vscode.postMessage({ command: 'searchPrevious' })">↑</button>
+                        <button class="search-nav-button" title="下一个匹配 (F3)" onclick="vscode.postMessage({ command: 'searchNext' })">↓</button>
+                    </div>
                     <div id="search-results"></div>
                 </div>
+                <div id="bookmarks-panel" class="tab-panel">
+                    <div id="bookmarks-list"></div>
+                </div>
             </div>
         </div>
         
@@ -1150,6 +2999,9 @@ export class TxtReaderProvider {
                     <span class="chapter-icon">📖</span>
                     <span id="current-chapter-name">未识别章节</span>
                 </div>
+                <span class="encoding-info" id="encoding-info" title="使用其他编码重新打开" onclick="reopenWithEncoding()"></span>
+                <span class="page-info" id="page-info" style="display: none;"></span>
+                <span class="page-info" id="auto-scroll-info" title="自动滚动速度" style="display: none;"></span>
                 <span class="progress-info">
                     第 <span id="current-line">0</span> 行 / 共 <span id="total-lines">0</span> 行
                     (<span id="progress-percent">0</span>%)
@@ -1158,18 +3010,30 @@ export class TxtReaderProvider {
             <div class="content-area" id="content"></div>
         </div>
     </div>
+    
+    <div class="context-menu" id="context-menu"></div>
 
     <script>
         const vscode = acquireVsCodeApi();
         let allLines = [];
         let currentLine = 0;
         let totalLines = 0;
-        let allChapters = [];
+        let allChapters = []; // 卷和章节按行号排列，level 0 为卷、1 为章
+        let expandedVolumes = new Set(); // 已展开的卷（按卷标题所在行记录）
+        let allBookmarks = [];
+        let searchOptions = { regex: false, matchCase: false, wholeWord: false, ignoreWidth: false };
+        let activeMatcher = null; // 当前搜索的匹配规则，用于高亮正文
+        let highlightedLines = new Set();
+        let currentHit = null; // 当前定位到的匹配 { line, matchIndex, resultIndex }
+        let searchState = { page: 0, pageCount: 1, pageSize: 100, totalMatches: 0 };
+        let latestRequestIds = { search: 0, chapters: 0 }; // 已收到的最新请求编号
+        let bookmarkedLines = new Set();
         let sidebarVisible = true;
         let isInitialLoad = true; // 标记是否是初次加载
         
         // 虚拟滚动相关变量
         let useVirtualScroll = false;
+        let htmlContent = false; // 行内容是否为 HTML（EPUB）
         let lineHeight = ${lineHeight};
         let fontSize = ${fontSize};
         let bufferLines = 50; // 缓冲区行数
@@ -1209,11 +3073,148 @@ export class TxtReaderProvider {
             }
         }
         
+        function reopenWithEncoding() {
+            vscode.postMessage({ command: 'reopenWithEncoding' });
+        }
+        
         function doSearch() {
             const text = document.getElementById('search-input').value;
             if (text) {
-                vscode.postMessage({ command: 'search', text: text });
+                showSearchError('');
+                vscode.postMessage({ command: 'search', text: text, options: searchOptions });
+            }
+        }
+        
+        document.querySelectorAll('.search-option').forEach(button => {
+            button.addEventListener('click', () => {
+                const option = button.getAttribute('data-option');
+                searchOptions[option] = !searchOptions[option];
+                button.classList.toggle('active', searchOptions[option]);
+            });
+        });
+        
+        function showSearchError(message) {
+            const errorEl = document.getElementById('search-error');
+            errorEl.textContent = message;
+            errorEl.style.display = message ? 'block' : 'none';
+        }
+        
+        // 与扩展端一致的全角转半角（不改变下标）
+        function normalizeWidth(text) {
+            return text.replace(/[！-～　]/g, char => {
+                const code = char.charCodeAt(0);
+                return code === 0x3000 ? ' ' : String.fromCharCode(code - 0xfee0);
+            });
+        }
+        
+        function findMatches(text, matcher) {
+            const ranges = [];
+            if (!matcher) {
+                return ranges;
+            }
+            const regExp = new RegExp(matcher.source, matcher.flags);
+            const target = matcher.ignoreWidth ? normalizeWidth(text) : text;
+            let match;
+            while ((match = regExp.exec(target)) !== null) {
+                if (match[0].length === 0) {
+                    regExp.lastIndex++;
+                    continue;
+                }
+                ranges.push({ start: match.index, end: match.index + match[0].length });
+            }
+            return ranges;
+        }
+        
+        // 按匹配位置生成高亮 HTML
+        function highlightRanges(text, ranges, currentIndex = -1) {
+            let html = '';
+            let position = 0;
+            ranges.forEach((range, index) => {
+                const className = index === currentIndex ? 'search-highlight current' : 'search-highlight';
+                html += escapeHtml(text.slice(position, range.start));
+                html += '<span class="' + className + '">' + escapeHtml(text.slice(range.start, range.end)) + '</span>';
+                position = range.end;
+            });
+            return html + escapeHtml(text.slice(position));
+        }
+        
+        // 拆掉行内的高亮 span，保留其中的文本与标签
+        function unwrapSpans(lineEl, selector) {
+            lineEl.querySelectorAll(selector).forEach(span => span.replaceWith(...span.childNodes));
+            lineEl.normalize();
+        }
+        
+        // 在文本节点内包裹匹配内容，不破坏 EPUB 行原有的标签（跨节点的匹配拆成多个 span）
+        function wrapTextRanges(lineEl, ranges, currentIndex) {
+            const walker = document.createTreeWalker(lineEl, NodeFilter.SHOW_TEXT);
+            const nodes = [];
+            let node;
+            while ((node = walker.nextNode())) {
+                nodes.push(node);
+            }
+            let position = 0;
+            nodes.forEach(textNode => {
+                const text = textNode.nodeValue;
+                const nodeStart = position;
+                position += text.length;
+                const fragment = document.createDocumentFragment();
+                let offset = 0;
+                ranges.forEach((range, index) => {
+                    const start = Math.max(range.start, nodeStart) - nodeStart;
+                    const end = Math.min(range.end, position) - nodeStart;
+                    if (start >= end) {
+                        return;
+                    }
+                    fragment.append(text.slice(offset, start));
+                    const span = document.createElement('span');
+                    span.className = index === currentIndex ? 'search-highlight current' : 'search-highlight';
+                    span.textContent = text.slice(start, end);
+                    fragment.append(span);
+                    offset = end;
+                });
+                if (offset > 0) {
+                    fragment.append(text.slice(offset));
+                    textNode.replaceWith(fragment);
+                }
+            });
+        }
+        
+        function applyLineHighlight(lineEl) {
+            const lineNum = parseInt(lineEl.getAttribute('data-line'));
+            if (htmlContent) {
+                unwrapSpans(lineEl, '.speaking, .search-highlight');
+                const ranges = findMatches(lineEl.textContent, activeMatcher);
+                const currentIndex = currentHit && currentHit.line === lineNum ? currentHit.matchIndex : -1;
+                wrapTextRanges(lineEl, ranges, currentIndex);
+                if (ranges.length > 0) {
+                    highlightedLines.add(lineNum);
+                } else {
+                    highlightedLines.delete(lineNum);
+                }
+                if (speech.active && lineNum === speech.line && lineEl.isConnected) {
+                    markSpokenSentence();
+                }
+                return;
+            }
+            const text = lineEl.textContent;
+            const ranges = findMatches(text, activeMatcher);
+            if (ranges.length > 0) {
+                const currentIndex = currentHit && currentHit.line === lineNum ? currentHit.matchIndex : -1;
+                lineEl.innerHTML = highlightRanges(text, ranges, currentIndex);
+                highlightedLines.add(lineNum);
+            } else if (highlightedLines.has(lineNum)) {
+                lineEl.textContent = text;
+                highlightedLines.delete(lineNum);
             }
+            // 重建内容会去掉朗读高亮，需重新标出
+            if (speech.active && lineNum === speech.line && lineEl.isConnected) {
+                markSpokenSentence();
+            }
+        }
+        
+        // 高亮正文中已渲染的匹配内容
+        function applyContentHighlights() {
+            document.querySelectorAll('.content-line').forEach(applyLineHighlight);
         }
         
         document.getElementById('search-input').addEventListener('keypress', (e) => {
@@ -1268,6 +3269,9 @@ export class TxtReaderProvider {
         // 处理滚动事件
         let pendingChunkRequest = null;
         function handleScroll() {
+            if (pageMode) {
+                return;
+            }
             if (!useVirtualScroll) {
                 // 传统模式
                 const lines = document.querySelectorAll('.content-line');
@@ -1384,11 +3388,14 @@ export class TxtReaderProvider {
                 lines.forEach((line, index) => {
                     const lineNum = startLine + index;
                     const lineDiv = document.createElement('div');
-                    lineDiv.className = 'content-line';
+                    lineDiv.className = bookmarkedLines.has(lineNum) ? 'content-line bookmarked' : 'content-line';
                     lineDiv.setAttribute('data-line', lineNum);
                     // 确保文本内容不为空
                     const textContent = line !== undefined && line !== null ? String(line) : ' ';
                     lineDiv.textContent = textContent;
+                    if (activeMatcher) {
+                        applyLineHighlight(lineDiv);
+                    }
                     lineDiv.style.display = 'block';
                     fragment.appendChild(lineDiv);
                 });
@@ -1472,104 +3479,776 @@ export class TxtReaderProvider {
                 }
             }, 0);
             
-            loadedStartLine = startLine;
-            loadedEndLine = endLine;
-            loadingChunk = false;
+            loadedStartLine = startLine;
+            loadedEndLine = endLine;
+            loadingChunk = false;
+        }
+        
+        let progressUpdateTimer = null;
+        function updateProgressInfo(line, offset = 0) {
+            currentLine = line;
+            document.getElementById('current-line').textContent = line;
+            const percent = totalLines > 0 ? Math.round((line / totalLines) * 100) : 0;
+            document.getElementById('progress-percent').textContent = percent;
+            
+            // 更新当前章节显示和高亮
+            updateCurrentChapter(line, false); // 滚动时不自动定位
+            
+            // 节流发送进度更新
+            if (progressUpdateTimer) {
+                clearTimeout(progressUpdateTimer);
+            }
+            progressUpdateTimer = setTimeout(() => {
+                vscode.postMessage({ command: 'updateProgress', line: line, offset: offset });
+            }, 500); // 500ms 节流
+        }
+        
+        function updateCurrentChapter(line, shouldScroll = false) {
+            // 找到当前行所在的卷和章节
+            let currentIndex = -1;
+            for (let i = allChapters.length - 1; i >= 0; i--) {
+                if (line >= allChapters[i].line) {
+                    currentIndex = i;
+                    break;
+                }
+            }
+            let volumeIndex = -1;
+            for (let i = currentIndex; i >= 0; i--) {
+                if (allChapters[i].level === 0) {
+                    volumeIndex = i;
+                    break;
+                }
+            }
+            
+            // 更新工具栏显示：卷 / 章
+            const chapterNameEl = document.getElementById('current-chapter-name');
+            if (currentIndex === -1) {
+                chapterNameEl.textContent = '未识别章节';
+                chapterNameEl.title = '';
+            } else {
+                const parts = [];
+                if (volumeIndex !== -1) {
+                    parts.push(\`<span class="breadcrumb-volume">\${escapeHtml(allChapters[volumeIndex].name)}</span>\`);
+                }
+                if (currentIndex !== volumeIndex) {
+                    parts.push(escapeHtml(allChapters[currentIndex].name));
+                }
+                chapterNameEl.innerHTML = parts.join('<span class="breadcrumb-separator">/</span>');
+                chapterNameEl.title = chapterNameEl.textContent;
+            }
+            
+            // 更新章节列表高亮
+            document.querySelectorAll('.chapter-item.active').forEach(item => item.classList.remove('active'));
+            document.querySelectorAll('.volume-group.contains-active').forEach(group => group.classList.remove('contains-active'));
+            const activeItem = document.querySelector(\`.chapter-item[data-index="\${currentIndex}"]\`);
+            if (!activeItem) {
+                return;
+            }
+            activeItem.classList.add('active');
+            
+            const group = activeItem.closest('.volume-children')?.parentElement;
+            if (group) {
+                group.classList.add('contains-active');
+                // 定位时展开当前章节所在的卷
+                if (shouldScroll && !group.classList.contains('expanded')) {
+                    group.classList.add('expanded');
+                    expandedVolumes.add(Number(group.dataset.volumeLine));
+                }
+            }
+            // 只在需要时自动滚动到当前激活的章节
+            if (shouldScroll) {
+                setTimeout(() => {
+                    activeItem.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+                }, 100);
+            }
+        }
+        
+        function scrollToLine(lineNum) {
+            if (pageMode) {
+                showPageForLine(lineNum);
+                return;
+            }
+            if (useVirtualScroll) {
+                // 虚拟滚动模式：确保该行已加载
+                if (lineNum < loadedStartLine || lineNum > loadedEndLine) {
+                    // 如果行不在已加载范围内，请求新的块
+                    const requestStart = Math.max(0, lineNum - bufferLines * 2);
+                    const requestEnd = Math.min(totalLines - 1, lineNum + bufferLines * 2);
+                    vscode.postMessage({ 
+                        command: 'requestChunk', 
+                        startLine: requestStart, 
+                        endLine: requestEnd 
+                    });
+                    // 等待内容加载完成后再滚动（在 updateChunk 中处理）
+                    return;
+                }
+                
+                // 如果行已在范围内，直接滚动
+                const scrollTop = lineNum * lineHeightPx;
+                scrollContainer.scrollTop = scrollTop;
+                updateProgressInfo(lineNum);
+            } else {
+                // 传统模式
+                const lineElement = document.querySelector(\`.content-line[data-line="\${lineNum}"]\`);
+                if (lineElement) {
+                    lineElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
+                    updateProgressInfo(lineNum);
+                }
+            }
+        }
+        
+        let stealthStyle = '${this.stealthStyle}'; // 伪装显示样式：off / comment / log
+        
+        // 分页模式：以章节为单位排版，按视口高度切分成页
+        let pageMode = ${this.pageMode};
+        let pageRequestSeq = 0;
+        let pageState = {
+            section: null, // 当前内容段 { startLine, endLine, title, partial }
+            rows: [], // 每个视觉行相对于排版容器顶部的位置 { top, bottom }
+            pages: [], // 每页起始的视觉行下标
+            pageIndex: 0,
+            anchor: { line: 0, offset: 0 } // 页首字符位置，窗口大小变化后据此找回所在页
+        };
+        
+        function requestPageSection(line, target) {
+            vscode.postMessage({ command: 'requestPageSection', line: line, target: target, requestId: ++pageRequestSeq });
+        }
+        
+        function renderPageSection(message) {
+            if (message.requestId !== pageRequestSeq || !pageMode) {
+                return; // 已有更新的请求
+            }
+            
+            const content = document.getElementById('content');
+            content.classList.add('page-mode');
+            const viewport = document.createElement('div');
+            viewport.className = 'page-viewport';
+            viewport.id = 'page-viewport';
+            const flow = document.createElement('div');
+            flow.className = 'page-flow';
+            flow.id = 'page-flow';
+            message.lines.forEach((line, index) => {
+                const lineNum = message.startLine + index;
+                const lineDiv = document.createElement('div');
+                lineDiv.className = bookmarkedLines.has(lineNum) ? 'content-line bookmarked' : 'content-line';
+                lineDiv.setAttribute('data-line', lineNum);
+                lineDiv.innerHTML = lineToHtml(line);
+                if (activeMatcher) {
+                    applyLineHighlight(lineDiv);
+                }
+                flow.appendChild(lineDiv);
+            });
+            viewport.appendChild(flow);
+            content.innerHTML = '';
+            content.scrollTop = 0;
+            content.appendChild(viewport);
+            highlightedLines = new Set();
+            
+            pageState.section = {
+                startLine: message.startLine,
+                endLine: message.endLine,
+                title: message.title,
+                partial: message.partial
+            };
+            paginate();
+            
+            const target = message.target;
+            if (target === 'last') {
+                showPage(pageState.pages.length - 1);
+            } else if (target === 'first' || !target) {
+                showPage(0);
+            } else {
+                showPage(findPageForAnchor(target));
+            }
+            afterContentRendered();
+        }
+        
+        // 计算可用高度并按视觉行切分页面，页面底部不出现被截断的行
+        function paginate() {
+            const content = document.getElementById('content');
+            const flow = document.getElementById('page-flow');
+            const viewport = document.getElementById('page-viewport');
+            if (!flow || !viewport) {
+                return;
+            }
+            
+            const style = window.getComputedStyle(content);
+            const available = content.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+            flow.style.transform = '';
+            viewport.style.height = available + 'px';
+            
+            const flowTop = flow.getBoundingClientRect().top;
+            const rows = [];
+            flow.querySelectorAll('.content-line').forEach(lineEl => {
+                const range = document.createRange();
+                range.selectNodeContents(lineEl);
+                let rects = Array.from(range.getClientRects()).filter(rect => rect.height > 0);
+                if (rects.length === 0) {
+                    rects = [lineEl.getBoundingClientRect()];
+                }
+                rects.forEach(rect => {
+                    const top = rect.top - flowTop;
+                    const bottom = rect.bottom - flowTop;
+                    const last = rows[rows.length - 1];
+                    // 高亮等行内元素会把同一视觉行拆成多个矩形
+                    if (last && Math.abs(last.top - top) < 2) {
+                        last.bottom = Math.max(last.bottom, bottom);
+                    } else {
+                        rows.push({ top: top, bottom: bottom });
+                    }
+                });
+            });
+            
+            const pages = [0];
+            for (let i = 1; i < rows.length; i++) {
+                const pageTop = rows[pages[pages.length - 1]].top;
+                if (rows[i].bottom - pageTop > available) {
+                    pages.push(i);
+                }
+            }
+            pageState.rows = rows;
+            pageState.pages = pages;
+            pageState.available = available;
+        }
+        
+        function showPage(index) {
+            const flow = document.getElementById('page-flow');
+            const viewport = document.getElementById('page-viewport');
+            const { rows, pages } = pageState;
+            if (!flow || rows.length === 0) {
+                return;
+            }
+            
+            index = Math.max(0, Math.min(index, pages.length - 1));
+            const startRow = rows[pages[index]];
+            const nextRow = rows[pages[index + 1]];
+            flow.style.transform = 'translateY(' + (-startRow.top) + 'px)';
+            // 只显示完整的行，下一页的第一行不露出
+            viewport.style.height = (nextRow ? Math.min(nextRow.top - startRow.top, pageState.available) : pageState.available) + 'px';
+            pageState.pageIndex = index;
+            
+            pageState.anchor = getPageAnchor();
+            updatePageInfo();
+            updateProgressInfo(pageState.anchor.line, pageState.anchor.offset);
+        }
+        
+        // 取页首第一个字符所在的行号及其在行内的字符偏移
+        function getPageAnchor() {
+            const viewport = document.getElementById('page-viewport');
+            const rect = viewport.getBoundingClientRect();
+            const row = pageState.rows[pageState.pages[pageState.pageIndex]];
+            const range = document.caretRangeFromPoint
+                ? document.caretRangeFromPoint(rect.left + 1, rect.top + (row.bottom - row.top) / 2)
+                : null;
+            const node = range ? range.startContainer : null;
+            const lineEl = node ? (node.nodeType === Node.TEXT_NODE ? node.parentElement : node).closest('.content-line') : null;
+            if (!lineEl) {
+                const firstLine = viewport.querySelector('.content-line');
+                return { line: firstLine ? parseInt(firstLine.getAttribute('data-line')) : pageState.section.startLine, offset: 0 };
+            }
+            
+            // 高亮会把行文本拆成多个节点，偏移需从行首累计
+            let offset = 0;
+            const walker = document.createTreeWalker(lineEl, NodeFilter.SHOW_TEXT);
+            while (walker.nextNode()) {
+                if (walker.currentNode === node) {
+                    offset += range.startOffset;
+                    break;
+                }
+                offset += walker.currentNode.textContent.length;
+            }
+            return { line: parseInt(lineEl.getAttribute('data-line')), offset: offset };
+        }
+        
+        // 找到包含指定字符的页
+        function findPageForAnchor(anchor) {
+            const flow = document.getElementById('page-flow');
+            const lineEl = flow ? flow.querySelector('.content-line[data-line="' + anchor.line + '"]') : null;
+            if (!lineEl) {
+                return 0;
+            }
+            
+            let top = lineEl.getBoundingClientRect().top;
+            let remaining = anchor.offset || 0;
+            const walker = document.createTreeWalker(lineEl, NodeFilter.SHOW_TEXT);
+            while (remaining > 0 && walker.nextNode()) {
+                const length = walker.currentNode.textContent.length;
+                if (remaining < length) {
+                    const range = document.createRange();
+                    range.setStart(walker.currentNode, remaining);
+                    range.setEnd(walker.currentNode, remaining + 1);
+                    const rect = range.getClientRects()[0];
+                    if (rect) {
+                        top = rect.top;
+                    }
+                    break;
+                }
+                remaining -= length;
+            }
+            
+            const relativeTop = top - flow.getBoundingClientRect().top;
+            let index = 0;
+            for (let i = 0; i < pageState.pages.length; i++) {
+                if (pageState.rows[pageState.pages[i]].top <= relativeTop + 1) {
+                    index = i;
+                }
+            }
+            return index;
+        }
+        
+        function updatePageInfo() {
+            const pageInfo = document.getElementById('page-info');
+            if (!pageMode || !pageState.section) {
+                pageInfo.style.display = 'none';
+                return;
+            }
+            pageInfo.style.display = '';
+            pageInfo.textContent = (pageState.section.partial ? '本段' : '本章') + ' 第 ' + (pageState.pageIndex + 1) + ' / ' + pageState.pages.length + ' 页';
+        }
+        
+        function turnPage(direction) {
+            if (!pageMode) {
+                // 滚动模式下滚动一屏，保留一行作为衔接
+                const container = document.getElementById('content');
+                const step = container.clientHeight - (lineHeightPx || fontSize * lineHeight);
+                container.scrollBy({ top: direction * step });
+                return;
+            }
+            
+            const section = pageState.section;
+            if (!section) {
+                return;
+            }
+            const next = pageState.pageIndex + direction;
+            if (next >= 0 && next < pageState.pages.length) {
+                showPage(next);
+            } else if (direction > 0 && section.endLine < totalLines - 1) {
+                requestPageSection(section.endLine + 1, 'first');
+            } else if (direction < 0 && section.startLine > 0) {
+                requestPageSection(section.startLine - 1, 'last');
+            }
+        }
+        
+        // 跳转到指定行所在的页
+        function showPageForLine(line) {
+            const section = pageState.section;
+            if (section && line >= section.startLine && line <= section.endLine) {
+                showPage(findPageForAnchor({ line: line, offset: 0 }));
+            } else {
+                requestPageSection(line, { line: line, offset: 0 });
+            }
+        }
+        
+        function setStealthMode(style) {
+            stealthStyle = style;
+            document.body.classList.remove('stealth-comment', 'stealth-log');
+            if (style !== 'off') {
+                document.body.classList.add('stealth-' + style);
+            }
+        }
+        
+        // 切换伪装显示后字体和行宽都会变化，重新计算行高或重新分页
+        function relayoutForStealth(style) {
+            setStealthMode(style);
+            lineHeightPx = 0;
+            if (pageMode && pageState.section) {
+                const anchor = pageState.anchor;
+                paginate();
+                showPage(findPageForAnchor(anchor));
+            } else if (!pageMode) {
+                vscode.postMessage({ command: 'requestInitialContent' });
+            }
+        }
+        
+        // 打开时应用伪装设置
+        setStealthMode(stealthStyle);
+        
+        // 自动滚动：滚动模式下按速度逐帧平滑滚动，分页模式下按本页行数定时翻页
+        let autoScroll = { running: false, speed: ${this.autoScrollSpeed}, frame: 0, lastTime: 0, pending: 0, elapsed: 0 };
+        
+        function setAutoScroll(running, speed) {
+            autoScroll.speed = speed;
+            const info = document.getElementById('auto-scroll-info');
+            info.style.display = running ? '' : 'none';
+            info.textContent = '⏵ ' + speed + ' 行/分';
+            if (running === autoScroll.running) {
+                return;
+            }
+            
+            autoScroll.running = running;
+            cancelAnimationFrame(autoScroll.frame);
+            const content = document.getElementById('content');
+            if (running) {
+                // 平滑滚动会让逐帧滚动滞后，自动滚动期间关闭
+                content.style.scrollBehavior = 'auto';
+                autoScroll.lastTime = 0;
+                autoScroll.pending = 0;
+                autoScroll.elapsed = 0;
+                autoScroll.frame = requestAnimationFrame(autoScrollStep);
+            } else {
+                content.style.scrollBehavior = '';
+            }
+        }
+        
+        function stopAutoScrollAtEnd() {
+            setAutoScroll(false, autoScroll.speed);
+            vscode.postMessage({ command: 'autoScrollStopped' });
+        }
+        
+        function autoScrollStep(time) {
+            if (!autoScroll.running) {
+                return;
+            }
+            // 限制单帧间隔，避免卡顿后一下滚动过多
+            const delta = autoScroll.lastTime ? Math.min(time - autoScroll.lastTime, 100) : 0;
+            autoScroll.lastTime = time;
+            const msPerLine = 60000 / autoScroll.speed;
+            
+            if (pageMode) {
+                const section = pageState.section;
+                if (section) {
+                    const { pages, rows, pageIndex } = pageState;
+                    const rowsOnPage = (pageIndex + 1 < pages.length ? pages[pageIndex + 1] : rows.length) - pages[pageIndex];
+                    autoScroll.elapsed += delta;
+                    if (autoScroll.elapsed >= rowsOnPage * msPerLine) {
+                        autoScroll.elapsed = 0;
+                        if (pageIndex === pages.length - 1 && section.endLine >= totalLines - 1) {
+                            stopAutoScrollAtEnd();
+                            return;
+                        }
+                        turnPage(1);
+                    }
+                }
+            } else {
+                const content = document.getElementById('content');
+                autoScroll.pending += delta / msPerLine * (lineHeightPx || fontSize * lineHeight);
+                const step = Math.floor(autoScroll.pending);
+                if (step >= 1) {
+                    if (content.scrollTop + content.clientHeight >= content.scrollHeight - 1) {
+                        stopAutoScrollAtEnd();
+                        return;
+                    }
+                    autoScroll.pending -= step;
+                    content.scrollTop += step;
+                }
+            }
+            autoScroll.frame = requestAnimationFrame(autoScrollStep);
         }
         
-        let progressUpdateTimer = null;
-        function updateProgressInfo(line) {
-            currentLine = line;
-            document.getElementById('current-line').textContent = line;
-            const percent = totalLines > 0 ? Math.round((line / totalLines) * 100) : 0;
-            document.getElementById('progress-percent').textContent = percent;
+        // 朗读：按句朗读正文并高亮当前句，读完已渲染的内容后按需加载后续内容
+        let speech = {
+            active: false,
+            line: -1, // 正在朗读的行
+            sentences: [], // 当前行切分出的句子 { start, end, text }
+            index: 0, // 当前句
+            pending: null, // 等待加载的位置 { line, offset, direction }
+            resume: null, // 暂停时的位置 { line, offset }
+            utterance: null,
+            options: { voice: '', rate: 1, pitch: 1 }
+        };
+        
+        function splitSentences(text) {
+            const sentences = [];
+            const pattern = /[^。！？!?…；;]+[。！？!?…；;]*[”’」』"')）]*/g;
+            let match;
+            while ((match = pattern.exec(text)) !== null) {
+                if (match[0].trim()) {
+                    sentences.push({ start: match.index, end: match.index + match[0].length, text: match[0].trim() });
+                }
+            }
+            return sentences;
+        }
+        
+        function getLineElement(line) {
+            return document.querySelector('.content-line[data-line="' + line + '"]');
+        }
+        
+        function clearSpeechHighlight() {
+            document.querySelectorAll('.speaking').forEach(span => {
+                const parent = span.parentNode;
+                parent.replaceChild(document.createTextNode(span.textContent), span);
+                parent.normalize();
+            });
+        }
+        
+        // 用 span 包裹当前句（可能跨越搜索高亮等多个文本节点）
+        function markSpokenSentence() {
+            clearSpeechHighlight();
+            const sentence = speech.sentences[speech.index];
+            const lineEl = getLineElement(speech.line);
+            if (!speech.active || !sentence || !lineEl) {
+                return;
+            }
+            const walker = document.createTreeWalker(lineEl, NodeFilter.SHOW_TEXT);
+            const parts = [];
+            let position = 0;
+            let node;
+            while ((node = walker.nextNode())) {
+                const length = node.nodeValue.length;
+                const start = Math.max(sentence.start, position);
+                const end = Math.min(sentence.end, position + length);
+                if (start < end) {
+                    parts.push({ node: node, start: start - position, end: end - position });
+                }
+                position += length;
+            }
+            parts.forEach(part => {
+                const range = document.createRange();
+                range.setStart(part.node, part.start);
+                range.setEnd(part.node, part.end);
+                const span = document.createElement('span');
+                span.className = 'speaking';
+                range.surroundContents(span);
+            });
+        }
+        
+        function isLineVisible(line) {
+            const lineEl = getLineElement(line);
+            if (!lineEl) {
+                return false;
+            }
+            if (pageMode) {
+                return findPageForAnchor({ line: line, offset: 0 }) === pageState.pageIndex;
+            }
+            const rect = lineEl.getBoundingClientRect();
+            const containerRect = document.getElementById('content').getBoundingClientRect();
+            return rect.bottom > containerRect.top && rect.top < containerRect.bottom;
+        }
+        
+        // 让朗读位置保持在可见区域内，阅读进度跟随朗读位置
+        function followSpeech() {
+            const sentence = speech.sentences[speech.index];
+            if (pageMode) {
+                const page = findPageForAnchor({ line: speech.line, offset: sentence.start });
+                if (page !== pageState.pageIndex) {
+                    showPage(page);
+                }
+                return;
+            }
+            const lineEl = getLineElement(speech.line);
+            const rect = lineEl.getBoundingClientRect();
+            const containerRect = document.getElementById('content').getBoundingClientRect();
+            if (rect.top < containerRect.top || rect.bottom > containerRect.bottom) {
+                scrollToLine(speech.line);
+            }
+            updateProgressInfo(speech.line);
+        }
+        
+        // 从指定位置开始朗读；direction 为 -1 时从该行最后一句开始，遇到空行沿该方向继续查找
+        function speakFrom(line, offset, direction) {
+            speech.pending = null;
+            if (line < 0 || line >= totalLines) {
+                stopSpeech();
+                if (line >= totalLines) {
+                    vscode.postMessage({ command: 'speechFinished' });
+                }
+                return;
+            }
             
-            // 更新当前章节显示和高亮
-            updateCurrentChapter(line, false); // 滚动时不自动定位
+            const lineEl = getLineElement(line);
+            if (!lineEl) {
+                // 该行尚未渲染：加载包含该行的内容后继续
+                speech.pending = { line: line, offset: offset, direction: direction };
+                if (pageMode) {
+                    requestPageSection(line, direction < 0 ? 'last' : 'first');
+                } else {
+                    const startLine = direction < 0 ? Math.max(0, line - bufferLines * 2) : line;
+                    const endLine = Math.min(totalLines - 1, startLine + bufferLines * 4);
+                    vscode.postMessage({ command: 'requestChunk', startLine: startLine, endLine: endLine });
+                }
+                return;
+            }
             
-            // 节流发送进度更新
-            if (progressUpdateTimer) {
-                clearTimeout(progressUpdateTimer);
+            const sentences = splitSentences(lineEl.textContent);
+            if (sentences.length === 0) {
+                speakFrom(line + direction, direction < 0 ? Infinity : 0, direction);
+                return;
             }
-            progressUpdateTimer = setTimeout(() => {
-                vscode.postMessage({ command: 'updateProgress', line: line });
-            }, 500); // 500ms 节流
+            speech.line = line;
+            speech.sentences = sentences;
+            speech.index = direction < 0 && offset === Infinity
+                ? sentences.length - 1
+                : Math.max(0, sentences.findIndex(sentence => sentence.end > offset));
+            speakSentence();
         }
         
-        function updateCurrentChapter(line, shouldScroll = false) {
-            // 找到当前行所在的章节
-            let currentChapter = null;
-            let currentChapterIndex = -1;
+        function speakSentence() {
+            const sentence = speech.sentences[speech.index];
+            markSpokenSentence();
+            followSpeech();
             
-            for (let i = allChapters.length - 1; i >= 0; i--) {
-                if (line >= allChapters[i].line) {
-                    currentChapter = allChapters[i];
-                    currentChapterIndex = i;
-                    break;
+            const utterance = new SpeechSynthesisUtterance(sentence.text);
+            const voice = speechSynthesis.getVoices().find(item => item.name === speech.options.voice);
+            if (voice) {
+                utterance.voice = voice;
+            } else {
+                utterance.lang = document.documentElement.lang;
+            }
+            utterance.rate = speech.options.rate;
+            utterance.pitch = speech.options.pitch;
+            utterance.onend = () => {
+                // 暂停或跳句时 cancel 也会触发 end，只处理当前句的自然结束
+                if (speech.active && speech.utterance === utterance) {
+                    skipSentence(1);
                 }
+            };
+            utterance.onerror = (e) => {
+                if (speech.utterance === utterance && e.error !== 'interrupted' && e.error !== 'canceled') {
+                    stopSpeech();
+                    vscode.postMessage({ command: 'speechError', error: e.error });
+                }
+            };
+            speech.utterance = utterance;
+            speechSynthesis.cancel();
+            speechSynthesis.speak(utterance);
+        }
+        
+        function skipSentence(direction) {
+            if (!speech.active) {
+                return;
             }
-            
-            // 更新工具栏显示
-            const chapterNameEl = document.getElementById('current-chapter-name');
-            if (currentChapter) {
-                chapterNameEl.textContent = currentChapter.name;
+            const next = speech.index + direction;
+            if (next >= 0 && next < speech.sentences.length) {
+                speech.index = next;
+                speakSentence();
             } else {
-                chapterNameEl.textContent = '未识别章节';
+                speakFrom(speech.line + direction, direction < 0 ? Infinity : 0, direction);
+            }
+        }
+        
+        function stopSpeech() {
+            speech.active = false;
+            speech.pending = null;
+            speech.utterance = null;
+            speechSynthesis.cancel();
+            clearSpeechHighlight();
+        }
+        
+        // 开始 / 暂停朗读：暂停处仍在可见区域内时从暂停的句子继续，否则从当前阅读位置开始
+        function toggleSpeech(options) {
+            if (typeof speechSynthesis === 'undefined') {
+                vscode.postMessage({ command: 'speechError', error: '当前环境不支持语音合成' });
+                return;
+            }
+            speech.options = options;
+            if (speech.active) {
+                const sentence = speech.sentences[speech.index];
+                stopSpeech();
+                speech.resume = sentence ? { line: speech.line, offset: sentence.start } : null;
+                return;
             }
             
-            // 更新章节列表高亮
-            document.querySelectorAll('.chapter-item').forEach((item, index) => {
-                if (index === currentChapterIndex) {
-                    item.classList.add('active');
-                    // 只在需要时自动滚动到当前激活的章节
-                    if (shouldScroll) {
-                        setTimeout(() => {
-                            item.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
-                        }, 100);
-                    }
-                } else {
-                    item.classList.remove('active');
-                }
+            speech.active = true;
+            const resume = speech.resume;
+            speech.resume = null;
+            if (resume && isLineVisible(resume.line)) {
+                speakFrom(resume.line, resume.offset, 1);
+            } else if (pageMode && pageState.section) {
+                speakFrom(pageState.anchor.line, pageState.anchor.offset, 1);
+            } else {
+                speakFrom(currentLine, 0, 1);
+            }
+        }
+        
+        // 正文重新渲染后：继续等待加载的朗读，或恢复当前句的高亮
+        function afterContentRendered() {
+            if (!speech.active) {
+                return;
+            }
+            const pending = speech.pending;
+            if (pending && getLineElement(pending.line)) {
+                speakFrom(pending.line, pending.offset, pending.direction);
+            } else if (!document.querySelector('.speaking')) {
+                markSpokenSentence();
+            }
+        }
+        
+        function sendSpeechVoices() {
+            const voices = typeof speechSynthesis === 'undefined' ? [] : speechSynthesis.getVoices();
+            vscode.postMessage({
+                command: 'speechVoices',
+                voices: voices.map(voice => ({ name: voice.name, lang: voice.lang, isDefault: voice.default }))
             });
         }
         
-        function scrollToLine(lineNum) {
-            if (useVirtualScroll) {
-                // 虚拟滚动模式：确保该行已加载
-                if (lineNum < loadedStartLine || lineNum > loadedEndLine) {
-                    // 如果行不在已加载范围内，请求新的块
-                    const requestStart = Math.max(0, lineNum - bufferLines * 2);
-                    const requestEnd = Math.min(totalLines - 1, lineNum + bufferLines * 2);
-                    vscode.postMessage({ 
-                        command: 'requestChunk', 
-                        startLine: requestStart, 
-                        endLine: requestEnd 
-                    });
-                    // 等待内容加载完成后再滚动（在 updateChunk 中处理）
-                    return;
-                }
-                
-                // 如果行已在范围内，直接滚动
-                const scrollTop = lineNum * lineHeightPx;
-                scrollContainer.scrollTop = scrollTop;
-                updateProgressInfo(lineNum);
+        function setPageMode(enabled, line, offset) {
+            pageMode = enabled;
+            pageState.section = null;
+            updatePageInfo();
+            const content = document.getElementById('content');
+            if (enabled) {
+                requestPageSection(line, { line: line, offset: offset || 0 });
             } else {
-                // 传统模式
-                const lineElement = document.querySelector(\`.content-line[data-line="\${lineNum}"]\`);
-                if (lineElement) {
-                    lineElement.scrollIntoView({ behavior: 'smooth', block: 'start' });
-                    updateProgressInfo(lineNum);
-                }
+                content.classList.remove('page-mode');
+                // 恢复滚动模式的内容
+                vscode.postMessage({ command: 'requestInitialContent' });
             }
         }
         
+        // 窗口大小变化后重新分页，并回到原来的页首位置
+        let resizeTimer = null;
+        window.addEventListener('resize', () => {
+            if (!pageMode || !pageState.section) {
+                return;
+            }
+            clearTimeout(resizeTimer);
+            resizeTimer = setTimeout(() => {
+                const anchor = pageState.anchor;
+                paginate();
+                showPage(findPageForAnchor(anchor));
+            }, 150);
+        });
+        
+        // 点击页面左右两侧翻页
+        document.getElementById('content').addEventListener('click', (e) => {
+            if (!pageMode || window.getSelection().toString()) {
+                return;
+            }
+            const rect = e.currentTarget.getBoundingClientRect();
+            const x = (e.clientX - rect.left) / rect.width;
+            if (x > 2 / 3) {
+                turnPage(1);
+            } else if (x < 1 / 3) {
+                turnPage(-1);
+            }
+        });
+        
+        document.addEventListener('keydown', (e) => {
+            if (!pageMode || e.ctrlKey || e.metaKey || e.altKey) {
+                return;
+            }
+            const tag = e.target.tagName;
+            if (tag === 'INPUT' || tag === 'TEXTAREA') {
+                return;
+            }
+            if (['PageDown', 'ArrowRight', 'ArrowDown'].includes(e.key) || (e.key === ' ' && !e.shiftKey)) {
+                e.preventDefault();
+                turnPage(1);
+            } else if (['PageUp', 'ArrowLeft', 'ArrowUp'].includes(e.key) || (e.key === ' ' && e.shiftKey)) {
+                e.preventDefault();
+                turnPage(-1);
+            }
+        });
+        
         // 监听来自扩展的消息
         window.addEventListener('message', event => {
             const message = event.data;
             
+            // 丢弃已被新请求取代的搜索/章节扫描结果（分页回复由 pageRequestSeq 单独校验）
+            if (message.requestId !== undefined && message.command !== 'pageSection') {
+                const kind = message.command === 'searchResults' || message.command === 'searchCurrentMatch'
+                    ? 'search'
+                    : 'chapters';
+                if (message.requestId < latestRequestIds[kind]) {
+                    return;
+                }
+                latestRequestIds[kind] = message.requestId;
+            }
+            
             switch (message.command) {
                 case 'initContent':
                     useVirtualScroll = message.useVirtualScroll || false;
+                    htmlContent = message.html || false;
                     totalLines = message.totalLines || message.allLines?.length || 0;
                     currentLine = message.currentLine || 0;
                     
@@ -1597,8 +4276,12 @@ export class TxtReaderProvider {
                         if (contentEl) {
                             contentEl.innerHTML = 
                                 allLines.map((line, index) => 
-                                    \`<div class="content-line" data-line="\${index}">\${escapeHtml(line) || '&nbsp;'}</div>\`
+                                    \`<div class="content-line\${bookmarkedLines.has(index) ? ' bookmarked' : ''}" data-line="\${index}">\${lineToHtml(line) || '&nbsp;'}</div>\`
                                 ).join('');
+                            highlightedLines = new Set();
+                            if (activeMatcher) {
+                                applyContentHighlights();
+                            }
                         }
                     }
                     
@@ -1607,13 +4290,33 @@ export class TxtReaderProvider {
                         totalLinesEl.textContent = totalLines;
                     }
                     
-                    // 滚动到保存的位置
-                    setTimeout(() => {
-                        scrollToLine(currentLine);
-                    }, 100);
+                    const encodingEl = document.getElementById('encoding-info');
+                    if (encodingEl && message.encoding) {
+                        encodingEl.textContent = message.encoding;
+                        // 自动检测置信度较低时提示用户确认编码
+                        encodingEl.classList.toggle('uncertain', message.encodingConfidence < 0.5);
+                    }
+                    
+                    afterContentRendered();
+                    if (pageMode) {
+                        // 分页模式：回到保存的页首位置
+                        requestPageSection(currentLine, { line: currentLine, offset: message.currentOffset || 0 });
+                    } else {
+                        // 滚动到保存的位置
+                        setTimeout(() => {
+                            scrollToLine(currentLine);
+                        }, 100);
+                    }
                     break;
                     
                 case 'updateChunk':
+                    if (pageMode) {
+                        // 分页模式下的跳转由分页内容段处理
+                        if (message.isJump) {
+                            showPageForLine(message.targetLine);
+                        }
+                        break;
+                    }
                     // 更新内容块（虚拟滚动）
                     if (useVirtualScroll) {
                         const newLines = message.lines || [];
@@ -1657,6 +4360,7 @@ export class TxtReaderProvider {
                         
                         // 渲染新内容
                         renderVirtualContent(newLines, startLine, endLine);
+                        afterContentRendered();
                         
                         console.log('After renderVirtualContent:', {
                             container: scrollContainer ? scrollContainer.children.length : 0,
@@ -1734,6 +4438,42 @@ export class TxtReaderProvider {
                     scrollToLine(message.currentLine);
                     break;
                     
+                case 'pageSection':
+                    renderPageSection(message);
+                    break;
+                    
+                case 'turnPage':
+                    turnPage(message.direction);
+                    break;
+                    
+                case 'toggleSpeech':
+                    toggleSpeech(message.options);
+                    break;
+                    
+                case 'skipSentence':
+                    skipSentence(message.direction);
+                    break;
+                    
+                case 'setSpeechOptions':
+                    speech.options = message.options;
+                    break;
+                    
+                case 'requestSpeechVoices':
+                    sendSpeechVoices();
+                    break;
+                    
+                case 'setAutoScroll':
+                    setAutoScroll(message.running, message.speed);
+                    break;
+                    
+                case 'setStealthMode':
+                    relayoutForStealth(message.style);
+                    break;
+                    
+                case 'setPageMode':
+                    setPageMode(message.enabled, message.line, message.offset);
+                    break;
+                    
                 case 'updateChapters':
                     displayChapters(message.chapters);
                     break;
@@ -1751,8 +4491,37 @@ export class TxtReaderProvider {
                     displayChapters(message.chapters);
                     break;
                     
+                case 'updateBookmarks':
+                    displayBookmarks(message.bookmarks);
+                    break;
+                    
                 case 'searchResults':
-                    displaySearchResults(message.results, message.searchTerm, message.hasMore, message.progress, message.total);
+                    if (message.matcher && JSON.stringify(message.matcher) !== JSON.stringify(activeMatcher)) {
+                        activeMatcher = message.matcher;
+                        currentHit = null;
+                        applyContentHighlights();
+                    }
+                    displaySearchResults(message);
+                    break;
+                    
+                case 'searchCurrentMatch': {
+                    const previousLine = currentHit ? currentHit.line : -1;
+                    currentHit = { line: message.line, matchIndex: message.matchIndex, resultIndex: message.resultIndex };
+                    [previousLine, message.line].forEach(lineNum => {
+                        const lineEl = document.querySelector(\`.content-line[data-line="\${lineNum}"]\`);
+                        if (lineEl) {
+                            applyLineHighlight(lineEl);
+                        }
+                    });
+                    document.getElementById('search-nav-counter').textContent =
+                        \`第 \${message.ordinal} / \${message.totalMatches} 处\`;
+                    markCurrentSearchResult();
+                    break;
+                }
+                    
+                case 'searchError':
+                    showSearchError(message.message);
+                    document.querySelector('.sidebar-tab[data-tab="search"]').click();
                     break;
             }
         });
@@ -1762,16 +4531,55 @@ export class TxtReaderProvider {
             const container = document.getElementById('chapters-list');
             
             if (chapters.length === 0) {
-                container.innerHTML = '<div class="empty-message">未识别到章节<br>请配置章节分割规则</div>';
+                container.innerHTML = '<div class="empty-message">未识别到章节<br>请配置章节分割规则，或在正文中右键插入章节</div>';
                 return;
             }
             
-            container.innerHTML = chapters.map(chapter => 
-                \`<div class="chapter-item" onclick="jumpToChapter(\${chapter.line})">
-                    <div class="chapter-name">\${escapeHtml(chapter.name)}</div>
-                    <div class="chapter-line">第 \${chapter.line} 行</div>
-                </div>\`
-            ).join('');
+            // 统计每卷包含的章节数
+            const volumeSizes = new Map();
+            let volumeLine = -1;
+            chapters.forEach(chapter => {
+                if (chapter.level === 0) {
+                    volumeLine = chapter.line;
+                    volumeSizes.set(volumeLine, 0);
+                } else if (volumeLine !== -1) {
+                    volumeSizes.set(volumeLine, volumeSizes.get(volumeLine) + 1);
+                }
+            });
+            
+            // 卷之前的章节（如序章）直接放在顶层，之后的章节放入所属卷的分组
+            let html = '';
+            let groupOpen = false;
+            chapters.forEach((chapter, index) => {
+                if (chapter.level === 0) {
+                    if (groupOpen) {
+                        html += '</div></div>';
+                    }
+                    const expanded = expandedVolumes.has(chapter.line) ? ' expanded' : '';
+                    html += \`<div class="volume-group\${expanded}" data-volume-line="\${chapter.line}">
+                        <div class="chapter-item volume-header\${chapter.edited ? ' edited' : ''}" data-index="\${index}" onclick="jumpToChapter(\${chapter.line})">
+                            <span class="volume-toggle" onclick="toggleVolume(event, \${chapter.line})">▸</span>
+                            <span class="chapter-name">\${escapeHtml(chapter.name)}</span>
+                            <span class="volume-count">\${volumeSizes.get(chapter.line)} 章</span>
+                        </div>
+                        <div class="volume-children">\`;
+                    groupOpen = true;
+                } else {
+                    html += \`<div class="chapter-item\${chapter.edited ? ' edited' : ''}" data-index="\${index}" onclick="jumpToChapter(\${chapter.line})">
+                        <div class="chapter-name">\${escapeHtml(chapter.name)}</div>
+                        <div class="chapter-line">第 \${chapter.line} 行</div>
+                    </div>\`;
+                }
+            });
+            if (groupOpen) {
+                html += '</div></div>';
+            }
+            container.innerHTML = html;
+            
+            // 章节变化后分页的内容段随之变化，按当前页首位置重新分页
+            if (pageMode && pageState.section) {
+                requestPageSection(pageState.anchor.line, pageState.anchor);
+            }
             
             // 更新当前章节高亮，只在初次加载时自动滚动
             updateCurrentChapter(currentLine, isInitialLoad);
@@ -1780,43 +4588,200 @@ export class TxtReaderProvider {
             }
         }
         
-        function displaySearchResults(results, searchTerm, hasMore, progress, total) {
+        function displaySearchResults(message) {
             const container = document.getElementById('search-results');
+            const nav = document.getElementById('search-nav');
+            const results = message.results || [];
+            searchState = {
+                page: message.page,
+                pageCount: message.pageCount,
+                pageSize: message.pageSize,
+                totalMatches: message.totalMatches
+            };
             
-            if (results.length === 0 && (!progress || progress === 0)) {
+            if (message.done && message.totalResults === 0) {
+                nav.style.display = 'none';
                 container.innerHTML = '<div class="empty-message">未找到匹配结果</div>';
                 return;
             }
             
+            nav.style.display = 'flex';
+            if (!currentHit) {
+                document.getElementById('search-nav-counter').textContent =
+                    \`共 \${message.totalMatches} 处匹配（\${message.totalResults} 行）\`;
+            }
+            
             let html = '';
             
             // 显示搜索进度
-            if (progress !== undefined && total !== undefined) {
-                const percent = Math.round((progress / total) * 100);
+            if (!message.done && message.progress !== undefined && message.total) {
+                const percent = Math.round((message.progress / message.total) * 100);
                 html += \`<div class="loading-indicator">正在搜索... \${percent}%</div>\`;
+            } else if (message.cancelled) {
+                html += '<div class="loading-indicator">搜索已取消，仅显示部分结果</div>';
             }
             
             // 显示结果
-            if (results.length > 0) {
-                html += results.map(result => {
-                    const content = escapeHtml(result.content);
-                    const highlightedContent = content.replace(
-                        new RegExp(escapeHtml(searchTerm), 'g'),
-                        \`<span class="search-highlight">\${escapeHtml(searchTerm)}</span>\`
-                    );
-                    
-                    return \`<div class="search-result-item" onclick="jumpToChapter(\${result.line})">
-                        <div class="search-line">第 \${result.line} 行</div>
-                        <div class="search-content">\${highlightedContent}</div>
-                    </div>\`;
-                }).join('');
+            const offset = message.page * message.pageSize;
+            html += results.map((result, i) => {
+                const highlightedContent = highlightRanges(result.content, result.matches || []);
                 
-                if (hasMore) {
-                    html += '<div class="empty-message">结果较多，已限制显示数量</div>';
-                }
+                return \`<div class="search-result-item" data-index="\${offset + i}" onclick="jumpToSearchResult(\${offset + i})">
+                    <div class="search-line">第 \${result.line} 行</div>
+                    <div class="search-content">\${highlightedContent}</div>
+                </div>\`;
+            }).join('');
+            
+            // 分页
+            if (message.pageCount > 1) {
+                html += \`<div class="search-pager">
+                    <button class="search-nav-button" onclick="requestSearchPage(\${message.page - 1})" \${message.page === 0 ? 'disabled' : ''}>上一页</button>
+                    <span>\${message.page + 1} / \${message.pageCount}</span>
+                    <button class="search-nav-button" onclick="requestSearchPage(\${message.page + 1})" \${message.page >= message.pageCount - 1 ? 'disabled' : ''}>下一页</button>
+                </div>\`;
             }
             
             container.innerHTML = html;
+            markCurrentSearchResult();
+        }
+        
+        function markCurrentSearchResult() {
+            document.querySelectorAll('.search-result-item').forEach(item => {
+                const isCurrent = currentHit && parseInt(item.getAttribute('data-index')) === currentHit.resultIndex;
+                item.classList.toggle('current', !!isCurrent);
+                if (isCurrent) {
+                    item.scrollIntoView({ block: 'nearest' });
+                }
+            });
+        }
+        
+        function requestSearchPage(page) {
+            vscode.postMessage({ command: 'requestSearchPage', page: page });
+        }
+        
+        function jumpToSearchResult(index) {
+            vscode.postMessage({ command: 'jumpToSearchResult', index: index });
+        }
+        
+        function displayBookmarks(bookmarks) {
+            allBookmarks = bookmarks;
+            bookmarkedLines = new Set(bookmarks.map(b => b.line));
+            
+            // 同步正文中的书签标记
+            document.querySelectorAll('.content-line').forEach(lineEl => {
+                const lineNum = parseInt(lineEl.getAttribute('data-line'));
+                lineEl.classList.toggle('bookmarked', bookmarkedLines.has(lineNum));
+            });
+            
+            const container = document.getElementById('bookmarks-list');
+            if (bookmarks.length === 0) {
+                container.innerHTML = '<div class="empty-message">还没有书签<br>在正文中右键或使用快捷键添加</div>';
+                return;
+            }
+            
+            container.innerHTML = bookmarks.map(bookmark => 
+                \`<div class="bookmark-item" onclick="jumpToChapter(\${bookmark.line})">
+                    <div class="bookmark-header">
+                        <span class="bookmark-name" title="\${escapeHtml(bookmark.name)}">🔖 \${escapeHtml(bookmark.name)}</span>
+                        <span class="bookmark-actions">
+                            <button class="bookmark-action" title="重命名" onclick="bookmarkAction(event, 'renameBookmark', '\${bookmark.id}')">✏️</button>
+                            <button class="bookmark-action" title="备注" onclick="bookmarkAction(event, 'editBookmarkNote', '\${bookmark.id}')">📝</button>
+                            <button class="bookmark-action" title="删除" onclick="bookmarkAction(event, 'removeBookmark', '\${bookmark.id}')">🗑️</button>
+                        </span>
+                    </div>
+                    <div class="bookmark-meta">第 \${bookmark.line} 行</div>
+                    \${bookmark.note ? \`<div class="bookmark-note">\${escapeHtml(bookmark.note)}</div>\` : ''}
+                </div>\`
+            ).join('');
+        }
+        
+        function bookmarkAction(event, command, id) {
+            event.stopPropagation();
+            vscode.postMessage({ command: command, id: id });
+        }
+        
+        // 右键菜单：items 为 [{ label, message }]，点击后把 message 发给扩展
+        const contextMenu = document.getElementById('context-menu');
+        function showContextMenu(e, items) {
+            e.preventDefault();
+            contextMenu.innerHTML = items
+                .map((item, index) => \`<div class="context-menu-item" data-index="\${index}">\${escapeHtml(item.label)}</div>\`)
+                .join('');
+            contextMenu.querySelectorAll('.context-menu-item').forEach(itemEl => {
+                itemEl.addEventListener('click', () => {
+                    vscode.postMessage(items[parseInt(itemEl.getAttribute('data-index'))].message);
+                    contextMenu.style.display = 'none';
+                });
+            });
+            
+            contextMenu.style.left = e.clientX + 'px';
+            contextMenu.style.top = e.clientY + 'px';
+            contextMenu.style.display = 'block';
+        }
+        
+        // 正文右键菜单
+        document.getElementById('content').addEventListener('contextmenu', (e) => {
+            const lineEl = e.target.closest ? e.target.closest('.content-line') : null;
+            if (!lineEl) {
+                return;
+            }
+            
+            const lineNum = parseInt(lineEl.getAttribute('data-line'));
+            const bookmark = allBookmarks.find(b => b.line === lineNum);
+            const items = bookmark
+                ? [
+                    { label: '重命名书签', message: { command: 'renameBookmark', id: bookmark.id } },
+                    { label: '编辑书签备注', message: { command: 'editBookmarkNote', id: bookmark.id } },
+                    { label: '删除书签', message: { command: 'removeBookmark', id: bookmark.id } }
+                ]
+                : [{ label: '在此行添加书签', message: { command: 'addBookmark', line: lineNum } }];
+            if (!allChapters.some(chapter => chapter.line === lineNum)) {
+                items.push({ label: '在此行插入章节', message: { command: 'insertChapter', line: lineNum, level: 1 } });
+                if (allChapters.some(chapter => chapter.level === 0)) {
+                    items.push({ label: '在此行插入卷', message: { command: 'insertChapter', line: lineNum, level: 0 } });
+                }
+            }
+            showContextMenu(e, items);
+        });
+        
+        // 章节目录右键菜单
+        document.getElementById('chapters-list').addEventListener('contextmenu', (e) => {
+            const itemEl = e.target.closest ? e.target.closest('.chapter-item') : null;
+            if (!itemEl) {
+                return;
+            }
+            
+            const index = parseInt(itemEl.getAttribute('data-index'));
+            const chapter = allChapters[index];
+            const items = [
+                { label: '重命名', message: { command: 'renameChapter', line: chapter.line } },
+                { label: '删除', message: { command: 'deleteChapter', line: chapter.line } }
+            ];
+            if (index > 0) {
+                items.push({ label: '合并到上一章', message: { command: 'mergeChapter', line: chapter.line } });
+            }
+            showContextMenu(e, items);
+        });
+        
+        function insertChapterAtCurrentLine() {
+            vscode.postMessage({ command: 'insertChapter', line: currentLine, level: 1 });
+        }
+        
+        document.addEventListener('click', () => {
+            contextMenu.style.display = 'none';
+        });
+        
+        function toggleVolume(event, line) {
+            event.stopPropagation();
+            const group = document.querySelector(\`.volume-group[data-volume-line="\${line}"]\`);
+            if (!group) {
+                return;
+            }
+            if (group.classList.toggle('expanded')) {
+                expandedVolumes.add(line);
+            } else {
+                expandedVolumes.delete(line);
+            }
         }
         
         function jumpToChapter(line) {
@@ -1830,6 +4795,11 @@ export class TxtReaderProvider {
             return div.innerHTML;
         }
         
+        // EPUB 的行是扩展端过滤过的 HTML，其余文档为纯文本
+        function lineToHtml(line) {
+            return htmlContent ? line : escapeHtml(line);
+        }
+        
         // 初始化 toggle 按钮位置（页面加载时侧边栏是显示的）
         const initToggle = document.getElementById('sidebar-toggle');
         if (initToggle) {
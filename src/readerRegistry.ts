@@ -0,0 +1,85 @@
+import * as vscode from "vscode";
+import { TxtReaderProvider } from "./readerProvider";
+
+/**
+ * 阅读器注册表：按文件跟踪所有打开的阅读器面板，
+ * 将命令路由到当前聚焦（或最近聚焦）的阅读器，并维护 evaReaderActive 上下文
+ */
+export class ReaderRegistry implements vscode.Disposable {
+  private readers: Map<string, TxtReaderProvider> = new Map();
+  private lastActive: TxtReaderProvider | undefined;
+
+  constructor(private readonly extensionUri: vscode.Uri) {}
+
+  private getKey(fileUri: vscode.Uri): string {
+    return fileUri.toString();
+  }
+
+  /**
+   * 打开文档：已打开时显示现有面板，否则创建新的阅读器
+   */
+  public async open(fileUri: vscode.Uri, context: vscode.ExtensionContext) {
+    const key = this.getKey(fileUri);
+    const existing = this.readers.get(key);
+    if (existing) {
+      existing.reveal();
+      return existing;
+    }
+
+    const reader = new TxtReaderProvider(this.extensionUri, fileUri);
+    // 先登记再初始化，避免初始化期间重复打开同一文档
+    this.readers.set(key, reader);
+
+    reader.onDidChangeActive((active) => {
+      if (active) {
+        this.lastActive = reader;
+      }
+      this.updateContext();
+    });
+    reader.onDidDispose(() => {
+      this.readers.delete(key);
+      if (this.lastActive === reader) {
+        this.lastActive = undefined;
+      }
+      this.updateContext();
+    });
+
+    try {
+      await reader.show(context);
+    } catch (error) {
+      this.readers.delete(key);
+      throw error;
+    }
+    return reader;
+  }
+
+  /**
+   * 获取命令应作用的阅读器：当前聚焦的面板，否则为最近聚焦的面板
+   */
+  public getActive(): TxtReaderProvider | undefined {
+    for (const reader of this.readers.values()) {
+      if (reader.isActive) {
+        return reader;
+      }
+    }
+    return this.lastActive;
+  }
+
+  public get(fileUri: vscode.Uri): TxtReaderProvider | undefined {
+    return this.readers.get(this.getKey(fileUri));
+  }
+
+  public getAll(): TxtReaderProvider[] {
+    return [...this.readers.values()];
+  }
+
+  private updateContext() {
+    const active = [...this.readers.values()].some((reader) => reader.isActive);
+    vscode.commands.executeCommand("setContext", "evaReaderActive", active);
+  }
+
+  public dispose() {
+    this.readers.clear();
+    this.lastActive = undefined;
+  }
+}
@@ -0,0 +1,93 @@
+export interface SearchOptions {
+    regex: boolean; // 正则表达式
+    matchCase: boolean; // 区分大小写
+    wholeWord: boolean; // 全字匹配
+    ignoreWidth: boolean; // 忽略全角/半角差异
+}
+
+export interface MatchRange {
+    start: number;
+    end: number; // 不包含
+}
+
+export interface SearchMatcher {
+    source: string; // 编译后的正则源码（供 webview 高亮正文使用）
+    flags: string;
+    ignoreWidth: boolean;
+    find(line: string): MatchRange[];
+}
+
+export const defaultSearchOptions: SearchOptions = {
+    regex: false,
+    matchCase: false,
+    wholeWord: false,
+    ignoreWidth: false
+};
+
+/**
+ * 搜索表达式无效（如正则语法错误）
+ */
+export class SearchPatternError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SearchPatternError';
+    }
+}
+
+/**
+ * 将全角 ASCII 字符与全角空格转换为半角（逐字符一一对应，不改变字符串长度和下标）
+ */
+export function normalizeWidth(text: string): string {
+    return text.replace(/[！-～　]/g, char => {
+        const code = char.charCodeAt(0);
+        return code === 0x3000 ? ' ' : String.fromCharCode(code - 0xfee0);
+    });
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 根据搜索词和选项创建匹配器，表达式无效时抛出 SearchPatternError
+ */
+export function createSearchMatcher(term: string, options: SearchOptions): SearchMatcher {
+    let pattern = options.regex ? term : escapeRegExp(term);
+    if (options.ignoreWidth) {
+        pattern = normalizeWidth(pattern);
+    }
+    if (options.wholeWord) {
+        // 中文没有词边界，只对英文字母、数字和下划线判断边界
+        pattern = `(?<![A-Za-z0-9_])(?:${pattern})(?![A-Za-z0-9_])`;
+    }
+    const flags = options.matchCase ? 'g' : 'gi';
+
+    let regExp: RegExp;
+    try {
+        regExp = new RegExp(pattern, flags);
+    } catch (error) {
+        throw new SearchPatternError(`正则表达式无效: ${(error as Error).message}`);
+    }
+
+    return {
+        source: pattern,
+        flags: flags,
+        ignoreWidth: options.ignoreWidth,
+        find(line: string): MatchRange[] {
+            const text = options.ignoreWidth ? normalizeWidth(line) : line;
+            const ranges: MatchRange[] = [];
+            regExp.lastIndex = 0;
+
+            let match: RegExpExecArray | null;
+            while ((match = regExp.exec(text)) !== null) {
+                if (match[0].length === 0) {
+                    // 跳过空匹配，避免死循环
+                    regExp.lastIndex++;
+                    continue;
+                }
+                ranges.push({ start: match.index, end: match.index + match[0].length });
+            }
+            return ranges;
+        }
+    };
+}
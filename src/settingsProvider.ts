@@ -1,4 +1,11 @@
 import * as vscode from "vscode";
+import * as fs from "fs";
+import { chapterPatternPresets } from "./chapterPatterns";
+import {
+  addLibraryRoot,
+  getLibraryRoots,
+  removeLibraryRoot,
+} from "./libraryRoots";
 
 export class SettingsProvider {
   private panel: vscode.WebviewPanel | undefined;
@@ -29,8 +36,11 @@ export class SettingsProvider {
     this.panel.webview.onDidReceiveMessage(
       async (message) => {
         switch (message.command) {
-          case "selectDirectory":
-            await this.selectDirectory();
+          case "addRoot":
+            await this.addRoot();
+            break;
+          case "removeRoot":
+            await this.removeRoot(message.index);
             break;
           case "saveSettings":
             await this.saveSettings(message.settings);
@@ -51,34 +61,65 @@ export class SettingsProvider {
     await this.sendCurrentSettings();
   }
 
-  private async selectDirectory() {
+  private async addRoot() {
     const result = await vscode.window.showOpenDialog({
       canSelectFiles: false,
       canSelectFolders: true,
       canSelectMany: false,
-      title: "选择文档目录",
+      title: "添加书库目录",
     });
 
-    if (result && result.length > 0) {
-      this.sendMessage({
-        command: "updateDirectory",
-        directory: result[0].fsPath,
-      });
+    if (result && result.length > 0 && (await addLibraryRoot(result[0].fsPath))) {
+      await this.sendRoots();
+    }
+  }
+
+  private async removeRoot(index: number) {
+    const root = getLibraryRoots()[index];
+    if (!root) {
+      return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+      `从书架中移除书库目录“${root.path}”？目录中的文件不会被删除。`,
+      { modal: true },
+      "移除"
+    );
+    if (confirm === "移除") {
+      await removeLibraryRoot(root);
+      await this.sendRoots();
     }
   }
 
+  /**
+   * 单独发送书库目录列表，避免覆盖表单中尚未保存的修改
+   */
+  private async sendRoots() {
+    const roots = await Promise.all(
+      getLibraryRoots().map(async (root) => ({
+        path: root.path,
+        setting: root.setting,
+        sourceLabel: root.sourceLabel,
+        missing: !(await fs.promises
+          .stat(root.path)
+          .then((stats) => stats.isDirectory())
+          .catch(() => false)),
+      }))
+    );
+    this.sendMessage({ command: "updateRoots", roots });
+  }
+
   private async saveSettings(settings: any) {
     const config = vscode.workspace.getConfiguration("evaReader");
 
     try {
       await config.update(
-        "booksDirectory",
-        settings.booksDirectory,
+        "defaultChapterPattern",
+        settings.defaultChapterPattern,
         vscode.ConfigurationTarget.Global
       );
       await config.update(
-        "defaultChapterPattern",
-        settings.defaultChapterPattern,
+        "defaultVolumePattern",
+        settings.defaultVolumePattern,
         vscode.ConfigurationTarget.Global
       );
       await config.update(
@@ -130,11 +171,11 @@ export class SettingsProvider {
     this.sendMessage({
       command: "updateSettings",
       settings: {
-        booksDirectory: config.get<string>("booksDirectory", ""),
         defaultChapterPattern: config.get<string>(
           "defaultChapterPattern",
           "^第[0-9一二三四五六七八九十百千]+[章节]\\s+.+$"
         ),
+        defaultVolumePattern: config.get<string>("defaultVolumePattern", ""),
         fontSize: config.get<number>("fontSize", 16),
         lineHeight: config.get<number>("lineHeight", 1.8),
         scrollStep: config.get<number>("scrollStep", 3),
@@ -144,6 +185,7 @@ export class SettingsProvider {
         enableVirtualScroll: config.get<boolean>("enableVirtualScroll", true),
       },
     });
+    await this.sendRoots();
   }
 
   private sendMessage(message: any) {
@@ -152,6 +194,29 @@ export class SettingsProvider {
     }
   }
 
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+
+  /**
+   * 渲染章节规则预设列表，正则通过 data 属性传给脚本，避免在 onclick 中转义
+   */
+  private getPresetItems(): string {
+    return chapterPatternPresets
+      .map(
+        (preset) => `<div class="example-item">
+                    <span class="example-pattern">${this.escapeHtml(preset.pattern)}</span>
+                    <span class="example-desc">${this.escapeHtml(preset.label)}：${this.escapeHtml(preset.example)}</span>
+                    <button type="button" class="btn btn-secondary example-use-btn" data-pattern="${this.escapeHtml(preset.pattern)}" data-volume-pattern="${this.escapeHtml(preset.volumePattern || "")}" onclick="usePattern(this.dataset.pattern, this.dataset.volumePattern)">使用</button>
+                </div>`
+      )
+      .join("\n                ");
+  }
+
   private getWebviewContent(): string {
     return `<!DOCTYPE html>
 <html lang="zh-CN">
@@ -230,13 +295,40 @@ export class SettingsProvider {
             border-color: var(--vscode-focusBorder);
         }
         
-        .directory-input-group {
+        .root-list {
+            margin-bottom: 10px;
+        }
+        
+        .root-item {
             display: flex;
+            align-items: center;
             gap: 10px;
+            padding: 8px;
+            margin-bottom: 8px;
+            background-color: var(--vscode-editorWidget-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 3px;
+            font-size: 13px;
         }
         
-        .directory-input-group .form-input {
+        .root-path {
             flex: 1;
+            word-break: break-all;
+        }
+        
+        .root-setting {
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .root-item.missing .root-path {
+            color: var(--vscode-errorForeground);
+        }
+        
+        .root-empty {
+            font-size: 13px;
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 10px;
         }
         
         .btn {
@@ -331,14 +423,11 @@ export class SettingsProvider {
     
     <form id="settings-form">
         <div class="section">
-            <div class="section-title">📁 文档目录</div>
+            <div class="section-title">📁 书库目录</div>
             <div class="form-group">
-                <label class="form-label">文档目录</label>
-                <div class="directory-input-group">
-                    <input type="text" id="booksDirectory" class="form-input" placeholder="选择包含文档的目录" readonly>
-                    <button type="button" class="btn" onclick="selectDirectory()">浏览</button>
-                </div>
-                <div class="form-description">设置书架中显示的文档所在目录</div>
+                <div id="root-list" class="root-list"></div>
+                <button type="button" class="btn" onclick="addRoot()">添加目录</button>
+                <div class="form-description">书架汇总显示所有书库目录中的文档；可以保存在用户设置或工作区设置中，工作区内的目录保存为相对路径。添加和移除立即生效</div>
             </div>
         </div>
         
@@ -349,39 +438,15 @@ export class SettingsProvider {
                 <input type="text" id="defaultChapterPattern" class="form-input" placeholder="^第[0-9]+章.+$">
                 <div class="form-description">此规则将应用于所有未单独配置的文档</div>
             </div>
+            <div class="form-group">
+                <label class="form-label">默认卷标题规则（正则表达式）</label>
+                <input type="text" id="defaultVolumePattern" class="form-input" placeholder="^第[0-9一二三四五六七八九十百千]+卷.*$">
+                <div class="form-description">匹配的行会作为目录中的卷，其后的章节归入该卷；留空表示不分卷</div>
+            </div>
             
             <div class="examples">
-                <div class="examples-title">常用章节分割规则</div>
-                <div class="example-item">
-                    <span class="example-pattern">^第[0-9一二三四五六七八九十百千]+[章节]\\s+.+$</span>
-                    <span class="example-desc">第一章 标题</span>
-                    <button type="button" class="btn btn-secondary example-use-btn" onclick="usePattern('^第[0-9一二三四五六七八九十百千]+[章节]\\\\s+.+$')">使用</button>
-                </div>
-                <div class="example-item">
-                    <span class="example-pattern">^[0-9]+、.+$</span>
-                    <span class="example-desc">1、标题</span>
-                    <button type="button" class="btn btn-secondary example-use-btn" onclick="usePattern('^[0-9]+、.+$')">使用</button>
-                </div>
-                <div class="example-item">
-                    <span class="example-pattern">^[0-9]+\\s+.+$</span>
-                    <span class="example-desc">1 标题</span>
-                    <button type="button" class="btn btn-secondary example-use-btn" onclick="usePattern('^[0-9]+\\\\s+.+$')">使用</button>
-                </div>
-                <div class="example-item">
-                    <span class="example-pattern">^[0-9]+\\.\\s+.+$</span>
-                    <span class="example-desc">1. 标题</span>
-                    <button type="button" class="btn btn-secondary example-use-btn" onclick="usePattern('^[0-9]+\\\\.\\\\s+.+$')">使用</button>
-                </div>
-                <div class="example-item">
-                    <span class="example-pattern">^Chapter\\s+[0-9]+</span>
-                    <span class="example-desc">Chapter 1</span>
-                    <button type="button" class="btn btn-secondary example-use-btn" onclick="usePattern('^Chapter\\\\s+[0-9]+')">使用</button>
-                </div>
-                <div class="example-item">
-                    <span class="example-pattern">.*章.*</span>
-                    <span class="example-desc">包含"章"字</span>
-                    <button type="button" class="btn btn-secondary example-use-btn" onclick="usePattern('.*章.*')">使用</button>
-                </div>
+                <div class="examples-title">章节规则预设</div>
+                ${this.getPresetItems()}
             </div>
         </div>
         
@@ -437,12 +502,40 @@ export class SettingsProvider {
     <script>
         const vscode = acquireVsCodeApi();
         
-        function selectDirectory() {
-            vscode.postMessage({ command: 'selectDirectory' });
+        function addRoot() {
+            vscode.postMessage({ command: 'addRoot' });
+        }
+        
+        function removeRoot(index) {
+            vscode.postMessage({ command: 'removeRoot', index: index });
+        }
+        
+        function escapeHtml(text) {
+            const div = document.createElement('div');
+            div.textContent = text;
+            return div.innerHTML;
+        }
+        
+        function renderRoots(roots) {
+            const list = document.getElementById('root-list');
+            if (roots.length === 0) {
+                list.innerHTML = '<div class="root-empty">尚未添加书库目录</div>';
+                return;
+            }
+            list.innerHTML = roots.map((root, index) => \`
+                <div class="root-item\${root.missing ? ' missing' : ''}">
+                    <div class="root-path">
+                        <div>\${root.missing ? '⚠️ ' : ''}\${escapeHtml(root.path)}</div>
+                        <div class="root-setting">\${escapeHtml(root.sourceLabel)}\${root.setting !== root.path ? '：' + escapeHtml(root.setting) : ''}\${root.missing ? '（目录不存在）' : ''}</div>
+                    </div>
+                    <button type="button" class="btn btn-secondary example-use-btn" onclick="removeRoot(\${index})">移除</button>
+                </div>
+            \`).join('');
         }
         
-        function usePattern(pattern) {
+        function usePattern(pattern, volumePattern) {
             document.getElementById('defaultChapterPattern').value = pattern;
+            document.getElementById('defaultVolumePattern').value = volumePattern || '';
         }
         
         function cancel() {
@@ -453,8 +546,8 @@ export class SettingsProvider {
             e.preventDefault();
             
             const settings = {
-                booksDirectory: document.getElementById('booksDirectory').value,
                 defaultChapterPattern: document.getElementById('defaultChapterPattern').value,
+                defaultVolumePattern: document.getElementById('defaultVolumePattern').value,
                 fontSize: parseInt(document.getElementById('fontSize').value),
                 lineHeight: parseFloat(document.getElementById('lineHeight').value),
                 scrollStep: parseInt(document.getElementById('scrollStep').value),
@@ -472,8 +565,8 @@ export class SettingsProvider {
             
             if (message.command === 'updateSettings') {
                 const settings = message.settings;
-                document.getElementById('booksDirectory').value = settings.booksDirectory;
                 document.getElementById('defaultChapterPattern').value = settings.defaultChapterPattern;
+                document.getElementById('defaultVolumePattern').value = settings.defaultVolumePattern;
                 document.getElementById('fontSize').value = settings.fontSize;
                 document.getElementById('lineHeight').value = settings.lineHeight;
                 document.getElementById('scrollStep').value = settings.scrollStep;
@@ -481,8 +574,8 @@ export class SettingsProvider {
                 document.getElementById('chunkSize').value = settings.chunkSize;
                 document.getElementById('bufferLines').value = settings.bufferLines;
                 document.getElementById('enableVirtualScroll').checked = settings.enableVirtualScroll;
-            } else if (message.command === 'updateDirectory') {
-                document.getElementById('booksDirectory').value = message.directory;
+            } else if (message.command === 'updateRoots') {
+                renderRoots(message.roots);
             }
         });
         
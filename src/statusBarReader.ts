@@ -0,0 +1,292 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { BookConfigManager } from "./bookConfig";
+import { readBookFile } from "./bookFile";
+import { decodeText, detectFileEncoding } from "./encoding";
+import {
+  EpubBook,
+  epubPositionToLine,
+  isEpubFile,
+  lineToEpubPosition,
+  loadEpub,
+} from "./epub";
+import { convertDocument, getDocumentFormat } from "./formatAdapter";
+import { LineIndex, LineIndexManager } from "./lineIndex";
+import { ReaderRegistry } from "./readerRegistry";
+
+interface LineBlock {
+  startLine: number;
+  lines: string[];
+}
+
+/**
+ * 状态栏阅读：在状态栏逐行显示文档内容，超长的行按状态栏宽度切分成多段依次显示。
+ * 进度与阅读器面板共用同一份文档配置，切回面板时从同一位置继续
+ */
+export class StatusBarReader implements vscode.Disposable {
+  private static readonly blockLines = 200; // 每次从文件读取的行数
+
+  private readonly item: vscode.StatusBarItem;
+  private filePath: string | undefined;
+  private encoding: string = "utf-8";
+  private lineIndex: LineIndex | undefined;
+  private epub: EpubBook | undefined; // EPUB 整本解析后全部保存在内存中
+  private block: LineBlock | undefined; // 最近读取的行块（EPUB、Markdown、HTML 为转换后的全部行）
+  private totalLines: number = 0;
+  private currentLine: number = 0;
+  private segments: string[] = []; // 当前行切分后的各段
+  private segmentOffsets: number[] = []; // 各段在行内的起始字符偏移
+  private segmentIndex: number = 0;
+  private saveProgressTimer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly readerRegistry: ReaderRegistry) {
+    this.item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      -100
+    );
+    this.item.command = "evaReader.statusBarNext";
+  }
+
+  public get isActive(): boolean {
+    return this.filePath !== undefined;
+  }
+
+  /**
+   * 开始在状态栏阅读指定文档，从保存的进度（或已打开阅读器的当前位置）继续
+   */
+  public async start(filePath: string) {
+    await this.stop();
+
+    const config = await BookConfigManager.loadConfig(filePath);
+    let line = config?.progress || 0;
+    let offset = config?.progressOffset || 0;
+
+    if (isEpubFile(filePath)) {
+      this.epub = await loadEpub(filePath);
+      this.block = { startLine: 0, lines: this.epub.lines };
+      this.totalLines = this.epub.lines.length;
+      if (config?.epubPosition) {
+        line = epubPositionToLine(this.epub, config.epubPosition) ?? line;
+      }
+    } else {
+      this.encoding =
+        config?.encoding || (await detectFileEncoding(filePath)).encoding;
+
+      const format = getDocumentFormat(filePath);
+      if (format === "markdown" || format === "html") {
+        // Markdown / HTML 转换后的行全部保存在内存中
+        const buffer = await readBookFile(filePath);
+        const { lines } = await convertDocument(decodeText(buffer, this.encoding), format);
+        this.block = { startLine: 0, lines };
+        this.totalLines = lines.length;
+      } else {
+        if (await LineIndexManager.isValid(config?.lineIndex, filePath, this.encoding)) {
+          this.lineIndex = config!.lineIndex;
+        } else {
+          this.lineIndex = await LineIndexManager.build(filePath, this.encoding);
+          await BookConfigManager.updateLineIndex(filePath, this.lineIndex);
+        }
+        this.totalLines = this.lineIndex!.totalLines;
+        this.block = undefined;
+      }
+    }
+    this.filePath = filePath;
+
+    const reader = this.readerRegistry.get(vscode.Uri.file(filePath));
+    if (reader) {
+      ({ line, offset } = reader.position);
+    }
+
+    await this.loadLine(Math.min(line, this.totalLines - 1));
+    // 定位到包含保存位置的那一段
+    this.segmentIndex = Math.max(
+      0,
+      this.segmentOffsets.filter((start) => start <= offset).length - 1
+    );
+    this.render();
+    this.item.show();
+    vscode.commands.executeCommand("setContext", "evaReaderStatusBarActive", true);
+  }
+
+  /**
+   * 退出状态栏阅读，立即保存进度
+   */
+  public async stop() {
+    if (!this.filePath) {
+      return;
+    }
+    if (this.saveProgressTimer) {
+      clearTimeout(this.saveProgressTimer);
+      this.saveProgressTimer = undefined;
+    }
+    await this.saveProgressNow();
+    this.filePath = undefined;
+    this.lineIndex = undefined;
+    this.epub = undefined;
+    this.block = undefined;
+    this.item.hide();
+    vscode.commands.executeCommand("setContext", "evaReaderStatusBarActive", false);
+  }
+
+  /**
+   * 显示下一段；当前行已显示完时跳到下一个非空行
+   */
+  public async next() {
+    if (!this.filePath) {
+      return;
+    }
+    if (this.segmentIndex < this.segments.length - 1) {
+      this.segmentIndex++;
+    } else {
+      const line = await this.findNonEmptyLine(this.currentLine + 1, 1);
+      if (line === -1) {
+        vscode.window.setStatusBarMessage("已到达文档末尾", 2000);
+        return;
+      }
+      await this.loadLine(line);
+      this.segmentIndex = 0;
+    }
+    this.render();
+    this.scheduleSaveProgress();
+  }
+
+  /**
+   * 显示上一段；当前行已在第一段时回到上一个非空行的最后一段
+   */
+  public async previous() {
+    if (!this.filePath) {
+      return;
+    }
+    if (this.segmentIndex > 0) {
+      this.segmentIndex--;
+    } else {
+      const line = await this.findNonEmptyLine(this.currentLine - 1, -1);
+      if (line === -1) {
+        vscode.window.setStatusBarMessage("已到达文档开头", 2000);
+        return;
+      }
+      await this.loadLine(line);
+      this.segmentIndex = this.segments.length - 1;
+    }
+    this.render();
+    this.scheduleSaveProgress();
+  }
+
+  /**
+   * 读取指定行的内容（按块读取并缓存最近的一块）
+   */
+  private async getLine(line: number): Promise<string> {
+    const block = this.block;
+    if (block && line >= block.startLine && line < block.startLine + block.lines.length) {
+      return block.lines[line - block.startLine];
+    }
+
+    const startLine =
+      Math.floor(line / StatusBarReader.blockLines) * StatusBarReader.blockLines;
+    const endLine = Math.min(
+      this.totalLines - 1,
+      startLine + StatusBarReader.blockLines - 1
+    );
+    const { buffer, firstLine } = await LineIndexManager.readLines(
+      this.filePath!,
+      this.lineIndex!,
+      startLine,
+      endLine
+    );
+    const lines = decodeText(buffer, this.encoding)
+      .split("\n")
+      .slice(startLine - firstLine, endLine - firstLine + 1);
+    this.block = { startLine, lines };
+    return lines[line - startLine] ?? "";
+  }
+
+  /**
+   * 从 start 开始按 direction 方向查找第一个非空行，找不到时返回 -1
+   */
+  private async findNonEmptyLine(start: number, direction: number): Promise<number> {
+    for (let line = start; line >= 0 && line < this.totalLines; line += direction) {
+      if ((await this.getLine(line)).trim()) {
+        return line;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * 载入指定行并按状态栏宽度切分
+   */
+  private async loadLine(line: number) {
+    this.currentLine = Math.max(0, line);
+    const text = (await this.getLine(this.currentLine)).replace(/\r$/, "");
+    const width = vscode.workspace
+      .getConfiguration("evaReader")
+      .get<number>("statusBarWidth", 60);
+
+    // 按显示宽度切分：全角字符计为 2，行首缩进不计入
+    const indent = text.length - text.trimStart().length;
+    this.segments = [];
+    this.segmentOffsets = [];
+    let start = indent;
+    let used = 0;
+    for (let i = indent; i < text.length; i++) {
+      const charWidth = text.charCodeAt(i) > 0xff ? 2 : 1;
+      if (used + charWidth > width && i > start) {
+        this.segments.push(text.substring(start, i));
+        this.segmentOffsets.push(start);
+        start = i;
+        used = 0;
+      }
+      used += charWidth;
+    }
+    this.segments.push(text.substring(start));
+    this.segmentOffsets.push(start);
+  }
+
+  private render() {
+    const segment = this.segments[this.segmentIndex] || "";
+    const hasMore = this.segmentIndex < this.segments.length - 1;
+    this.item.text = hasMore ? `${segment}…` : segment;
+
+    const percent =
+      this.totalLines > 0
+        ? Math.round(((this.currentLine + 1) / this.totalLines) * 100)
+        : 0;
+    const segmentInfo =
+      this.segments.length > 1
+        ? `，第 ${this.segmentIndex + 1} / ${this.segments.length} 段`
+        : "";
+    this.item.tooltip = `${path.basename(this.filePath!)}\n第 ${this.currentLine} 行 / 共 ${this.totalLines} 行（${percent}%）${segmentInfo}\n点击显示下一段`;
+  }
+
+  private scheduleSaveProgress() {
+    // 延迟保存进度，避免频繁写入
+    if (this.saveProgressTimer) {
+      clearTimeout(this.saveProgressTimer);
+    }
+    this.saveProgressTimer = setTimeout(() => {
+      this.saveProgressNow();
+    }, 2000);
+
+    // 阅读器面板也打开着时同步其位置，避免面板关闭时用旧位置覆盖进度
+    const reader = this.readerRegistry.get(vscode.Uri.file(this.filePath!));
+    reader?.jumpToLine(this.currentLine);
+  }
+
+  private async saveProgressNow() {
+    if (this.filePath) {
+      // 是否读完按阅读器记录的读完位置判定，与阅读器面板一致
+      await BookConfigManager.updateProgress(
+        this.filePath,
+        this.currentLine,
+        this.totalLines,
+        this.segmentOffsets[this.segmentIndex],
+        this.epub ? lineToEpubPosition(this.epub, this.currentLine) : undefined
+      );
+    }
+  }
+
+  public dispose() {
+    this.stop();
+    this.item.dispose();
+  }
+}
@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { Readable } from 'stream';
+import { promisify } from 'util';
+import { decodeText, detectEncoding } from './encoding';
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+export interface ZipEntry {
+    name: string; // 压缩包内的路径（使用 / 分隔）
+    method: number; // 压缩方式：0 为存储，8 为 deflate
+    compressedSize: number;
+    size: number; // 解压后的大小
+    localHeaderOffset: number;
+}
+
+/**
+ * 不支持的压缩包格式（如 ZIP64、加密或未知的压缩方式）
+ */
+export class ZipFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ZipFormatError';
+    }
+}
+
+const endOfCentralDirectorySignature = 0x06054b50;
+const centralDirectorySignature = 0x02014b50;
+const localHeaderSignature = 0x04034b50;
+const maxCommentLength = 0xffff;
+
+/**
+ * 只读的 ZIP 压缩包：读取中央目录获得文件列表，按需解压单个文件
+ */
+export class ZipArchive {
+    private constructor(
+        private readonly filePath: string,
+        public readonly entries: ZipEntry[]
+    ) {}
+
+    /**
+     * 打开压缩包并读取中央目录
+     */
+    public static async open(filePath: string): Promise<ZipArchive> {
+        const handle = await fs.promises.open(filePath, 'r');
+        try {
+            const { size } = await handle.stat();
+            // 中央目录结束记录位于文件末尾，之后最多跟一段注释
+            const tailLength = Math.min(size, 22 + maxCommentLength);
+            const tail = Buffer.alloc(tailLength);
+            await handle.read(tail, 0, tailLength, size - tailLength);
+
+            let end = -1;
+            for (let i = tailLength - 22; i >= 0; i--) {
+                if (tail.readUInt32LE(i) === endOfCentralDirectorySignature) {
+                    end = i;
+                    break;
+                }
+            }
+            if (end === -1) {
+                throw new ZipFormatError('不是有效的 ZIP 文件');
+            }
+
+            const entryCount = tail.readUInt16LE(end + 10);
+            const directorySize = tail.readUInt32LE(end + 12);
+            const directoryOffset = tail.readUInt32LE(end + 16);
+            if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+                throw new ZipFormatError('不支持 ZIP64 格式的压缩包');
+            }
+
+            const directory = Buffer.alloc(directorySize);
+            await handle.read(directory, 0, directorySize, directoryOffset);
+            return new ZipArchive(filePath, this.parseCentralDirectory(directory, entryCount));
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private static parseCentralDirectory(directory: Buffer, entryCount: number): ZipEntry[] {
+        const entries: ZipEntry[] = [];
+        let position = 0;
+
+        for (let i = 0; i < entryCount && position + 46 <= directory.length; i++) {
+            if (directory.readUInt32LE(position) !== centralDirectorySignature) {
+                throw new ZipFormatError('ZIP 中央目录已损坏');
+            }
+            const flags = directory.readUInt16LE(position + 8);
+            const nameLength = directory.readUInt16LE(position + 28);
+            const extraLength = directory.readUInt16LE(position + 30);
+            const commentLength = directory.readUInt16LE(position + 32);
+            const nameBuffer = directory.subarray(position + 46, position + 46 + nameLength);
+
+            entries.push({
+                // 未设置 UTF-8 标志的文件名多为系统本地编码（如 GBK），按内容检测
+                name: (flags & 0x800) !== 0
+                    ? nameBuffer.toString('utf-8')
+                    : decodeText(nameBuffer, detectEncoding(nameBuffer).encoding),
+                method: directory.readUInt16LE(position + 10),
+                compressedSize: directory.readUInt32LE(position + 20),
+                size: directory.readUInt32LE(position + 24),
+                localHeaderOffset: directory.readUInt32LE(position + 42)
+            });
+            position += 46 + nameLength + extraLength + commentLength;
+        }
+
+        return entries;
+    }
+
+    /**
+     * 按路径查找文件（忽略大小写差异的精确匹配优先）
+     */
+    public getEntry(name: string): ZipEntry | undefined {
+        return this.entries.find(entry => entry.name === name)
+            || this.entries.find(entry => entry.name.toLowerCase() === name.toLowerCase());
+    }
+
+    /**
+     * 读取本地文件头，返回压缩数据的起始位置
+     */
+    private async getDataOffset(handle: fs.promises.FileHandle, entry: ZipEntry): Promise<number> {
+        const header = Buffer.alloc(30);
+        await handle.read(header, 0, 30, entry.localHeaderOffset);
+        if (header.readUInt32LE(0) !== localHeaderSignature) {
+            throw new ZipFormatError(`${entry.name} 的文件头已损坏`);
+        }
+        if ((header.readUInt16LE(6) & 0x1) !== 0) {
+            throw new ZipFormatError(`不支持加密的文件：${entry.name}`);
+        }
+        if (entry.method !== 0 && entry.method !== 8) {
+            throw new ZipFormatError(`不支持的压缩方式（${entry.method}）：${entry.name}`);
+        }
+
+        // 本地文件头中的文件名、扩展字段长度可能与中央目录不同，需以本地文件头为准
+        return entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    }
+
+    /**
+     * 读取并解压单个文件
+     */
+    public async read(entry: ZipEntry): Promise<Buffer> {
+        const handle = await fs.promises.open(this.filePath, 'r');
+        try {
+            const dataOffset = await this.getDataOffset(handle, entry);
+            const data = Buffer.alloc(entry.compressedSize);
+            await handle.read(data, 0, entry.compressedSize, dataOffset);
+            return entry.method === 0 ? data : await inflateRaw(data);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    /**
+     * 以流的方式边读取边解压单个文件，用于不便整体载入内存的大文件
+     */
+    public async createReadStream(entry: ZipEntry): Promise<Readable> {
+        const handle = await fs.promises.open(this.filePath, 'r');
+        let dataOffset: number;
+        try {
+            dataOffset = await this.getDataOffset(handle, entry);
+        } finally {
+            await handle.close();
+        }
+
+        if (entry.compressedSize === 0) {
+            return Readable.from([]);
+        }
+        const source = fs.createReadStream(this.filePath, {
+            start: dataOffset,
+            end: dataOffset + entry.compressedSize - 1
+        });
+        if (entry.method === 0) {
+            return source;
+        }
+        const inflate = zlib.createInflateRaw();
+        source.on('error', error => inflate.destroy(error));
+        inflate.on('close', () => source.destroy());
+        return source.pipe(inflate);
+    }
+
+    /**
+     * 读取文本文件（按 UTF-8 解码）
+     */
+    public async readText(name: string): Promise<string | undefined> {
+        const entry = this.getEntry(name);
+        return entry ? (await this.read(entry)).toString('utf-8') : undefined;
+    }
+}